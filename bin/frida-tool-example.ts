@@ -1,64 +1,269 @@
 import {
+    AgentIdentity,
+    AgentOptions,
     Application,
+    ChildOrigin,
     Config,
+    ControlServer,
+    ControlServerOptions,
     Delegate,
+    ExitConditions,
     Operation,
+    OperationKind,
+    OperationPolicies,
     LogLevel,
+    MatchingMode,
+    MemoryInspection,
+    MemoryInspector,
+    ModuleInfo,
+    ModuleInventoryOptions,
+    ModuleSnapshotter,
+    ProcessExit,
+    ReconnectPolicy,
+    Recorder,
+    RunSummary,
+    ScriptError,
+    ScriptOptions,
+    SessionDetachReason,
+    StopReason,
     Target,
     TargetDevice,
     TargetProcess,
+    TargetProcessAllByName,
+    TargetProcessMatching,
+    TargetProcessSpawn,
+    TraceExporter,
+    TraceSpec,
+    TracedCall,
+    ValueFormat,
+    agentScriptName,
+    compilePattern,
+    deviceDirectory,
+    diffSnapshots,
+    isLoopbackHost,
+    isMatcherSpec,
+    loadConfig,
+    loadSnapshot,
+    mergeConfig,
+    mergeScripts,
+    operationKinds,
+    parseMatcherSpec,
+    replay,
+    stringToPattern,
+    valueFormats,
 } from "../lib/index.js";
+import { ListKind, ListUI, list } from "./list.js";
+import { ProgressView } from "./progress-view.js";
+import { Repl } from "./repl.js";
+import { printSnapshotDiff } from "./snapshot-diff.js";
+import { formatTable } from "./table.js";
+import { TreeView } from "./tree-view.js";
 
 import chalk, { ChalkInstance } from "chalk";
-import { program, Command } from "commander";
+import { InvalidArgumentError, program } from "commander";
+import * as fs from "fs";
+import * as path from "path";
 import prettyHrtime from "pretty-hrtime";
+import { inspect } from "util";
 
 async function main(): Promise<void> {
     const args = parseArguments();
 
-    const config: Config = {
+    if (args.list !== null) {
+        const app = new Application({ targets: [] }, new ListUI());
+        const targetDevice = args.targets[args.targets.length - 1]?.device ?? { kind: "local" };
+        try {
+            await list(app, args.list, targetDevice, args.outputFormat === "jsonl", args.listParameters);
+        } catch (error) {
+            process.exitCode = 1;
+            process.stderr.write(`${chalk.redBright((error as Error).message)}\n`);
+        } finally {
+            await app.dispose();
+        }
+        return;
+    }
+
+    if (args.diff !== null) {
+        try {
+            const [before, after] = await Promise.all(args.diff.map(loadSnapshot));
+            const differs = printSnapshotDiff(diffSnapshots(before, after), args.outputFormat === "jsonl");
+            process.exitCode = differs ? 1 : 0;
+        } catch (error) {
+            process.exitCode = 2;
+            process.stderr.write(`${chalk.redBright((error as Error).message)}\n`);
+        }
+        return;
+    }
+
+    const dataDir = (args.dataDir !== null) ? new DataDirectory(args.dataDir) : null;
+    // The tree view and the prompt write to the terminal on their own, so can't share it with a progress view.
+    const progressView = (process.stdout.isTTY && !args.tree && !args.interactive) ? new ProgressView() : null;
+    const ui = (args.outputFormat === "jsonl") ? new JsonLinesUI(dataDir) : new ConsoleUI(dataDir, progressView);
+
+    if (args.replay !== null) {
+        try {
+            await replay(args.replay, ui, { speed: args.replaySpeed });
+        } catch (error) {
+            process.exitCode = 1;
+            process.stderr.write(`${chalk.redBright((error as Error).message)}\n`);
+        }
+        return;
+    }
+
+    let config: Config = {
         targets: args.targets,
     };
-    const ui = new ConsoleUI();
+    if (Object.keys(args.agent).length !== 0) {
+        config.agent = args.agent;
+    }
+    if (args.watchAgent) {
+        config.watchAgent = true;
+    }
+    if (args.scripts.length !== 0) {
+        config.scripts = args.scripts;
+    }
+    if (Object.keys(args.operations).length !== 0) {
+        config.operations = args.operations;
+    }
+    if (args.reconnect !== null) {
+        config.reconnect = args.reconnect;
+    }
+    if (Object.keys(args.exit).length !== 0) {
+        config.exit = args.exit;
+    }
+    if (args.configFile !== null) {
+        try {
+            config = mergeConfig(await loadConfig(args.configFile), config);
+        } catch (error) {
+            process.exitCode = 1;
+            process.stderr.write(`${chalk.redBright((error as Error).message)}\n`);
+            return;
+        }
+    }
 
-    const app = new Application(config, ui);
+    let delegate: Delegate = ui;
+    let treeView: TreeView | null = null;
+    if (args.tree) {
+        delegate = treeView = new TreeView(delegate);
+    }
+    let snapshotter: ModuleSnapshotter | null = null;
+    if (args.snapshot !== null) {
+        delegate = snapshotter = new ModuleSnapshotter(args.snapshot, args.snapshotDetails, delegate);
+    }
+    let memoryInspector: MemoryInspector | null = null;
+    if (args.memory.scan !== undefined || args.memory.dump !== undefined) {
+        delegate = memoryInspector = new MemoryInspector(args.memory, delegate);
+    }
+    let controlServer: ControlServer | null = null;
+    if (args.control !== null) {
+        const options = (args.controlToken !== null) ? { ...args.control, token: args.controlToken } : args.control;
+        delegate = controlServer = new ControlServer(options, delegate);
+    }
+    let traceExporter: TraceExporter | null = null;
+    if (args.trace !== null) {
+        delegate = traceExporter = new TraceExporter(delegate);
+    }
+    let recorder: Recorder | null = null;
+    if (args.record !== null) {
+        delegate = recorder = new Recorder(args.record, delegate);
+    }
+
+    const app = new Application(config, delegate);
+    treeView?.start(app);
+    snapshotter?.start(app);
+    memoryInspector?.start(app);
+
+    // Operations performed while disposing are still reported after main() returns.
+    process.once("exit", () => {
+        if (traceExporter !== null) {
+            traceExporter.write(args.trace!);
+        }
+    });
 
     process.on("SIGINT", stop);
     process.on("SIGTERM", stop);
 
+    const repl = args.interactive
+        ? new Repl(app, stop, (args.outputFormat === "jsonl") ? process.stderr : process.stdout)
+        : null;
+
     try {
-        await app.run();
+        if (controlServer !== null) {
+            const address = await controlServer.start(app);
+            ui.onControlListening(address, controlServer.token);
+        }
+
+        const running = app.run();
+        repl?.start();
+        const { exitStatus } = await running;
+        if (exitStatus !== null) {
+            process.exitCode = exitStatus;
+        }
     } catch (error) {
         process.exitCode = 1;
         const e = error as Error;
         process.stderr.write(`${chalk.redBright(e.stack)}\n`);
     } finally {
-        stop();
+        repl?.close();
+        await controlServer?.close();
+        await app.dispose();
+        try {
+            await recorder?.close();
+        } catch (error) {
+            process.exitCode = 1;
+            process.stderr.write(`${chalk.redBright((error as Error).message)}\n`);
+        }
     }
 
     function stop() {
-        app.dispose();
+        app.dispose().catch(error => {
+            process.exitCode = 1;
+            process.stderr.write(`${chalk.redBright((error as Error).message)}\n`);
+        });
     }
 }
 
+/**
+ * Prints events as colored text. Operations in flight are shown as a live
+ * progress view if given one, otherwise log messages arriving during an
+ * operation of the same scope are set apart from it.
+ */
 class ConsoleUI implements Delegate {
-    #pendingOperation: PendingOperation | null = null;
+    #pendingOperations: PendingOperation[] = [];
+    #dataDir: DataDirectory | null;
+    #progressView: ProgressView | null;
+
+    constructor(dataDir: DataDirectory | null, progressView: ProgressView | null) {
+        this.#dataDir = dataDir;
+        this.#progressView = progressView;
+    }
 
     public onProgress(operation: Operation): void {
         const pending = {
             operation: operation,
             logMessageCount: 0,
         };
-        this.#pendingOperation = pending;
+        this.#pendingOperations.push(pending);
+        this.#progressView?.add(operation);
 
         operation.onceComplete(() => {
+            const pendingOperations = this.#pendingOperations;
+            pendingOperations.splice(pendingOperations.indexOf(pending), 1);
+            this.#progressView?.remove(operation);
+
+            let output = "";
             if (pending.logMessageCount > 0) {
-                process.stdout.write(`[${operation.scope}] ${chalk.cyan(`${operation.description} completed`)}\n`);
+                output += `[${operation.scope}] ${chalk.cyan(`${operation.description} completed`)}\n`;
             }
 
-            process.stdout.write(`[${operation.scope}] ${chalk.cyan(operation.description)} ${chalk.gray(prettyHrtime(operation.elapsed))}\n`);
+            const details = [prettyHrtime(operation.elapsed)];
+            if (operation.attempts > 1) {
+                details.push(`${operation.attempts} attempts`);
+            }
+            const status = (operation.status !== "succeeded") ? ` ${chalk.redBright(operation.status)}` : "";
+            output += `[${operation.scope}] ${chalk.cyan(operation.description)}${status} ${chalk.gray(details.join(", "))}\n`;
 
-            this.#pendingOperation = null;
+            this.#write(process.stdout, output);
         });
     }
 
@@ -78,32 +283,533 @@ class ConsoleUI implements Delegate {
                 c = chalk.grey;
         }
 
-        const pending = this.#pendingOperation;
-        if (pending !== null) {
+        let output = "";
+
+        const pending = (this.#progressView === null)
+            ? this.#pendingOperations.filter(p => p.operation.scope === scope).pop()
+            : undefined;
+        if (pending !== undefined) {
             if (pending.logMessageCount === 0) {
-                process.stdout.write(`${chalk.gray("...")}\n`);
+                output += `${chalk.gray("...")}\n`;
             }
 
             pending.logMessageCount += 1;
         }
 
-        process.stdout.write(`[${scope}] ${c(text)}\n`);
+        output += `[${scope}] ${c(text)}\n`;
+
+        this.#write(process.stdout, output);
+    }
+
+    public onOutput(scope: string, pid: number, fd: number, data: Buffer): void {
+        const c = (fd === 2) ? chalk.red : chalk.white;
+        const stream = (fd === 2) ? process.stderr : process.stdout;
+
+        const text = data.toString("utf-8").replace(/\r?\n$/, "");
+        this.#write(stream, text.split(/\r?\n/).map(line => `[${scope}] ${c(line)}\n`).join(""));
+    }
+
+    public onAgentMessage(agent: AgentIdentity, payload: any, data: Buffer | null): void {
+        let output = `[${agent.scope}] ${chalk.magenta(inspect(payload, { colors: chalk.level > 0 }))}\n`;
+
+        if (data !== null) {
+            const dataDir = this.#dataDir;
+            const summary = (dataDir !== null)
+                ? `${data.length} bytes saved to ${dataDir.save(agent, data)}`
+                : `${data.length} bytes of data`;
+            output += `[${agent.scope}] ${chalk.gray(summary)}\n`;
+        }
+
+        this.#write(process.stdout, output);
+    }
+
+    public onAgentError(agent: AgentIdentity, error: ScriptError): void {
+        this.#write(process.stdout, `[${agent.scope}] ${chalk.redBright(error.stack ?? error.description)}\n`);
+    }
+
+    public onTracedCalls(agent: AgentIdentity, calls: TracedCall[]): void {
+        let output = "";
+
+        for (const call of calls) {
+            const indent = "  ".repeat(call.depth);
+            const retval = (call.retval !== null) ? ` = ${call.retval}` : "";
+            output += `[${agent.scope}] ${chalk.gray(String(call.threadId).padStart(6))} ${indent}`
+                + `${chalk.green(call.function)}(${call.args.join(", ")})${retval} ${chalk.gray(`${call.duration} ms`)}\n`;
+
+            for (const frame of call.backtrace ?? []) {
+                output += `[${agent.scope}] ${" ".repeat(6)} ${indent}  ${chalk.gray(frame)}\n`;
+            }
+        }
+
+        this.#write(process.stdout, output);
+    }
+
+    public onModulesLoaded(agent: AgentIdentity, modules: ModuleInfo[]): void {
+        this.#write(process.stdout, modules.map(({ name, path, base }) => {
+            return `[${agent.scope}] ${chalk.blue(`Loaded ${name}`)} ${chalk.gray(`${path} at ${base}`)}\n`;
+        }).join(""));
+    }
+
+    public onAttached(agent: AgentIdentity): void {
+        // Already reported as console messages by the application.
+    }
+
+    public onDetached(agent: AgentIdentity, reason: SessionDetachReason, exit: ProcessExit | null): void {
+        // Already reported as console messages by the application.
+    }
+
+    public onReconnecting(device: string, attempt: number, maxAttempts: number): void {
+        this.#write(process.stdout, `[application] ${chalk.yellowBright(`Reconnecting to ${device} (attempt ${attempt} of ${maxAttempts})`)}\n`);
+    }
+
+    public onReconnected(device: string, attempts: number): void {
+        this.#write(process.stdout, `[application] ${chalk.whiteBright(`Reconnected to ${device}`)}\n`);
+    }
+
+    public onStopped(reason: StopReason): void {
+        const c = (reason.kind === "failed") ? chalk.redBright : chalk.whiteBright;
+        this.#write(process.stdout, `[application] ${c(`Stopped: ${reason.description}`)}\n`);
+    }
+
+    public onSummary(summary: RunSummary): void {
+        const { targets } = summary;
+
+        let output = `\n${chalk.bold(`Ran for ${prettyHrtime(millisecondsToHrtime(summary.duration))}`)}\n\n`;
+
+        output += formatTable(
+            ["TARGET", "ATTACHED", "CHILDREN", "MESSAGES", "CALLS", "LOG LINES", "DETACHES"],
+            targets.map(t => [
+                t.target,
+                String(t.processesAttached),
+                String(t.childrenInstrumented),
+                String(t.messages),
+                String(t.tracedCalls),
+                formatCounts(t.logLines),
+                formatCounts(t.detachReasons),
+            ]));
+
+        output += "\n" + formatTable(
+            ["TARGET", "PHASE", "OPERATIONS", "TIME"],
+            targets.flatMap(t => t.phases.map(p => [
+                t.target,
+                p.phase,
+                String(p.operations),
+                prettyHrtime(millisecondsToHrtime(p.time)),
+            ])));
+
+        const failures = targets.flatMap(t => Object.entries(t.failures).map(([description, count]) => {
+            return `[${t.target}] ${chalk.redBright(`${description} failed${(count > 1) ? ` ${count} times` : ""}`)}\n`;
+        }));
+        if (failures.length !== 0) {
+            output += "\n" + failures.join("");
+        }
+
+        this.#write(process.stdout, output);
+    }
+
+    public onControlListening(address: string, token: string): void {
+        this.onConsoleMessage("application", LogLevel.Info, `Control API listening on ${address}, with token ${token}`);
+    }
+
+    #write(stream: NodeJS.WriteStream, text: string): void {
+        const progressView = this.#progressView;
+        if (progressView !== null) {
+            progressView.write(stream, text);
+        } else {
+            stream.write(text);
+        }
+    }
+}
+
+class JsonLinesUI implements Delegate {
+    #dataDir: DataDirectory | null;
+
+    constructor(dataDir: DataDirectory | null) {
+        this.#dataDir = dataDir;
+    }
+
+    public onProgress(operation: Operation): void {
+        const { id, parentId, scope, description } = operation;
+
+        this.#emit({ type: "operation-started", id, parentId, scope, description });
+
+        operation.onceComplete(error => {
+            this.#emit({
+                type: "operation-completed",
+                id,
+                parentId,
+                scope,
+                description,
+                elapsed: hrtimeToMilliseconds(operation.elapsed),
+                attempts: operation.attempts,
+                status: operation.status,
+                error: (error !== undefined) ? error.message : null,
+            });
+        });
+    }
+
+    public onConsoleMessage(scope: string, level: LogLevel, text: string): void {
+        this.#emit({ type: "log", scope, level, text });
+    }
+
+    public onOutput(scope: string, pid: number, fd: number, data: Buffer): void {
+        this.#emit({ type: "output", scope, pid, fd, text: data.toString("utf-8") });
+    }
+
+    public onAgentMessage(agent: AgentIdentity, payload: any, data: Buffer | null): void {
+        const { scope, pid, device } = agent;
+
+        const event: { type: string, [key: string]: any } = { type: "message", scope, pid, device, payload };
+        if (data !== null) {
+            event.dataSize = data.length;
+
+            const dataDir = this.#dataDir;
+            if (dataDir !== null) {
+                event.dataFile = dataDir.save(agent, data);
+            }
+        }
+
+        this.#emit(event);
+    }
+
+    public onAgentError(agent: AgentIdentity, error: ScriptError): void {
+        const { scope, pid, device } = agent;
+        this.#emit({ type: "agent-error", scope, pid, device, ...error });
+    }
+
+    public onTracedCalls(agent: AgentIdentity, calls: TracedCall[]): void {
+        const { scope, pid, device } = agent;
+        for (const call of calls) {
+            this.#emit({ type: "call", scope, pid, device, ...call });
+        }
+    }
+
+    public onModulesLoaded(agent: AgentIdentity, modules: ModuleInfo[]): void {
+        const { scope, pid, device } = agent;
+        for (const module of modules) {
+            this.#emit({ type: "module-loaded", scope, pid, device, ...module });
+        }
+    }
+
+    public onAttached(agent: AgentIdentity): void {
+        this.#emit({ type: "attached", ...agent });
+    }
+
+    public onDetached(agent: AgentIdentity, reason: SessionDetachReason, exit: ProcessExit | null): void {
+        const { scope, pid, device } = agent;
+        this.#emit({ type: "detached", scope, pid, device, reason, exit });
+    }
+
+    public onReconnecting(device: string, attempt: number, maxAttempts: number): void {
+        this.#emit({ type: "reconnecting", device, attempt, maxAttempts });
+    }
+
+    public onReconnected(device: string, attempts: number): void {
+        this.#emit({ type: "reconnected", device, attempts });
+    }
+
+    public onStopped(reason: StopReason): void {
+        this.#emit({ type: "stopped", ...reason });
+    }
+
+    public onSummary(summary: RunSummary): void {
+        this.#emit({ type: "summary", ...summary });
+    }
+
+    public onControlListening(address: string, token: string): void {
+        this.#emit({ type: "control-listening", address, token });
+    }
+
+    #emit(event: { type: string, [key: string]: any }): void {
+        process.stdout.write(JSON.stringify({ timestamp: new Date().toISOString(), ...event }) + "\n");
+    }
+}
+
+/**
+ * Saves data in a directory per device, as PIDs are only unique within one.
+ */
+class DataDirectory {
+    #path: string;
+    #sequenceNumbers = new Map<string, number>();
+
+    constructor(dirPath: string) {
+        this.#path = dirPath;
+        fs.mkdirSync(dirPath, { recursive: true });
+    }
+
+    public save(agent: AgentIdentity, data: Buffer): string {
+        const { pid, device } = agent;
+
+        const deviceDir = deviceDirectory(this.#path, device);
+        const key = `${deviceDir}/${pid}`;
+        const seq = (this.#sequenceNumbers.get(key) ?? 0) + 1;
+        this.#sequenceNumbers.set(key, seq);
+
+        fs.mkdirSync(deviceDir, { recursive: true });
+        const filePath = path.join(deviceDir, `${pid}-${seq}.bin`);
+        fs.writeFileSync(filePath, data);
+        return filePath;
     }
 }
 
+function hrtimeToMilliseconds([seconds, nanoseconds]: [number, number]): number {
+    return (seconds * 1e3) + (nanoseconds / 1e6);
+}
+
+function millisecondsToHrtime(milliseconds: number): [number, number] {
+    const seconds = Math.floor(milliseconds / 1e3);
+    return [seconds, Math.floor((milliseconds - (seconds * 1e3)) * 1e6)];
+}
+
+function formatCounts(counts: { [key: string]: number }): string {
+    const entries = Object.entries(counts);
+    return (entries.length !== 0) ? entries.map(([key, count]) => `${count} ${key}`).join(", ") : "-";
+}
+
 interface PendingOperation {
     operation: Operation;
     logMessageCount: number;
 }
 
+type OutputFormat = "text" | "jsonl";
+
 interface Arguments {
+    configFile: string | null;
+    outputFormat: OutputFormat;
+    dataDir: string | null;
+    agent: AgentOptions;
+    scripts: ScriptOptions[];
+    watchAgent: boolean;
+    interactive: boolean;
+    tree: boolean;
+    list: ListKind | null;
+    listParameters: boolean;
+    record: string | null;
+    replay: string | null;
+    replaySpeed: number;
+    trace: string | null;
+    snapshot: string | null;
+    snapshotDetails: ModuleInventoryOptions;
+    diff: [string, string] | null;
+    memory: MemoryInspection;
+    control: ControlServerOptions | null;
+    controlToken: string | null;
+    operations: OperationPolicies;
+    reconnect: ReconnectPolicy | null;
+    exit: ExitConditions;
     targets: Target[];
 }
 
 function parseArguments(): Arguments {
     const targets: Target[] = [];
+    let configFile: string | null = null;
+    let spawnTarget: TargetProcessSpawn | null = null;
+    let watchTarget: TargetProcessAllByName | TargetProcessMatching | null = null;
+    let outputFormat: OutputFormat = "text";
+    let dataDir: string | null = null;
+    const agent: AgentOptions = {};
+    const traceSpecs: TraceSpec[] = [];
+    let backtrace = false;
+    let scripts: ScriptOptions[] = [];
+    let watchAgent = false;
+    let interactive = false;
+    let tree = false;
+    let listKind: ListKind | null = null;
+    let listParameters = false;
+    let record: string | null = null;
+    let replayFile: string | null = null;
+    let replaySpeed = 1;
+    let trace: string | null = null;
+    let snapshot: string | null = null;
+    const snapshotDetails: ModuleInventoryOptions = {};
+    const diffFiles: string[] = [];
+    let scanPattern: string | null = null;
+    let scanProtection = "r--";
+    let dumpProtection: string | null = null;
+    let control: ControlServerOptions | null = null;
+    let controlToken: string | null = null;
+    const operations: OperationPolicies = {};
+    let reconnect: ReconnectPolicy | null = null;
+    const exit: ExitConditions = {};
 
     program
+        .option("-o, --output <FORMAT>", "Output as text or jsonl", (format: string) => {
+            if (format !== "text" && format !== "jsonl") {
+                throw new InvalidArgumentError(`Invalid output format "${format}", expected "text" or "jsonl"`);
+            }
+            outputFormat = format;
+        })
+        .option("-l, --load <SCRIPT>", "Load agent from SCRIPT, compiling it if TypeScript", (script: string) => {
+            agent.source = script;
+        })
+        .option("--runtime <RUNTIME>", "Run agent using qjs, v8 or the default runtime", (runtime: string) => {
+            if (runtime !== "qjs" && runtime !== "v8" && runtime !== "default") {
+                throw new InvalidArgumentError(`Invalid runtime "${runtime}", expected "qjs", "v8" or "default"`);
+            }
+            agent.runtime = runtime;
+        })
+        .option("-P, --parameters <JSON>", "Pass JSON object to the agent's init()", (json: string) => {
+            const parameters = checkArgument(() => JSON.parse(json));
+            if (typeof parameters !== "object" || parameters === null || Array.isArray(parameters)) {
+                throw new InvalidArgumentError("Agent parameters must be a JSON object");
+            }
+            agent.parameters = parameters;
+        })
+        .option("--script <NAME=SCRIPT>", "Load SCRIPT into each process after the agent, naming it NAME", (assignment: string) => {
+            const [name, source] = parseAssignment("--script", assignment);
+            if (!/^[\w.-]+$/.test(name) || name === agentScriptName) {
+                throw new InvalidArgumentError(`Invalid script name "${name}"`);
+            }
+            scripts = mergeScripts(scripts, [{ name, source }]);
+        })
+        .option("-i, --include <FUNCTION>", "Trace functions matching MODULE!EXPORT, ADDRESS or SYMBOL, e.g. \"libc*!open(string,int)->int\"", (spec: string) => {
+            traceSpecs.push(parseTraceSpec("include", spec));
+        })
+        .option("-x, --exclude <FUNCTION>", "Don't trace functions matching FUNCTION, even if included", (spec: string) => {
+            traceSpecs.push(parseTraceSpec("exclude", spec));
+        })
+        .option("--backtrace", "Capture a backtrace for each traced call", () => {
+            backtrace = true;
+        })
+        .option("--watch-modules", "Report modules loaded after attaching", () => {
+            agent.watchModules = true;
+        })
+        .option("--watch-agent", "Reload the agent in all attached processes when it changes", () => {
+            watchAgent = true;
+        })
+        .option("--interactive", "Prompt for RPC calls to attached agents", () => {
+            interactive = true;
+        })
+        .option("-L, --list <WHAT>", "List devices, processes or applications instead of attaching", (what: string) => {
+            if (what !== "devices" && what !== "processes" && what !== "applications") {
+                throw new InvalidArgumentError(`Invalid list "${what}", expected "devices", "processes" or "applications"`);
+            }
+            listKind = what;
+        })
+        .option("--full", "Include process and application parameters in --list output", () => {
+            listParameters = true;
+        })
+        .option("--record <FILE>", "Record operations, messages and detaches to FILE for --replay", (file: string) => {
+            record = file;
+        })
+        .option("--replay <FILE>", "Replay a recording made with --record instead of attaching", (file: string) => {
+            replayFile = file;
+        })
+        .option("--speed <FACTOR>", "Replay FACTOR times faster than recorded, or \"max\" without waiting", (value: string) => {
+            const speed = (value === "max") ? Infinity : Number(value);
+            if (!(speed > 0)) {
+                throw new InvalidArgumentError(`Invalid replay speed "${value}"`);
+            }
+            replaySpeed = speed;
+        })
+        .option("--trace <FILE>", "Write operation timings to FILE as Chrome Trace Event JSON, e.g. for Perfetto", (file: string) => {
+            trace = file;
+        })
+        .option("--snapshot <DIR>", "Save the modules loaded in each process as DIR/NAME-PID@DEVICE.json", (dir: string) => {
+            snapshot = dir;
+        })
+        .option("--snapshot-details <LIST>", "Include a comma-separated list of exports, imports and symbols in snapshots", (list: string) => {
+            for (const detail of list.split(",")) {
+                if (detail !== "exports" && detail !== "imports" && detail !== "symbols") {
+                    throw new InvalidArgumentError(`Invalid snapshot detail "${detail}", expected "exports", "imports" or "symbols"`);
+                }
+                snapshotDetails[detail] = true;
+            }
+        })
+        .option("--diff <SNAPSHOT...>", "Compare two snapshots made with --snapshot instead of attaching", (file: string) => {
+            diffFiles.push(file);
+        })
+        .option("--scan <PATTERN>", "Scan memory of each process for hex bytes like \"48 8b ?? 05\", ?? matching any", (pattern: string) => {
+            const bytes = pattern.trim().split(/\s+/);
+            if (!bytes.every(b => /^[0-9a-f?]{2}$/i.test(b))) {
+                throw new InvalidArgumentError(`Invalid scan pattern "${pattern}", expected hex bytes separated by spaces`);
+            }
+            scanPattern = bytes.join(" ");
+        })
+        .option("--scan-string <TEXT>", "Scan memory of each process for UTF-8 encoded TEXT", (text: string) => {
+            scanPattern = stringToPattern(text);
+        })
+        .option("--scan-protection <PROT>", "Only scan memory with at least protection PROT, \"r--\" by default", (protection: string) => {
+            scanProtection = parseProtection(protection);
+        })
+        .option("--dump <PROT>", "Dump memory with at least protection PROT to --data-dir, one file per range", (protection: string) => {
+            dumpProtection = parseProtection(protection);
+        })
+        .option("--tree", "Show the tree of instrumented processes as it changes", () => {
+            tree = true;
+        })
+        .option("--control <ADDRESS>", "Serve control API on [HOST:]PORT or a UNIX socket path", (address: string) => {
+            control = parseControlAddress(address);
+        })
+        .option("--control-token <TOKEN>", "Require TOKEN for the control API instead of a random one", (token: string) => {
+            controlToken = token;
+        })
+        .option("--timeout <MS>", "Fail operations that take longer than MS milliseconds", (value: string) => {
+            const timeout = Number(value);
+            if (!Number.isFinite(timeout) || timeout < 0) {
+                throw new InvalidArgumentError(`Invalid timeout "${value}", expected milliseconds`);
+            }
+            operations.default = { ...operations.default, timeout };
+        })
+        .option("--retry <KIND=N>", "Retry operations of KIND up to N times, with backoff", (assignment: string) => {
+            const [kind, value] = parseAssignment("--retry", assignment);
+            if (kind !== "default" && !operationKinds.includes(kind as OperationKind)) {
+                throw new InvalidArgumentError(`Invalid operation kind "${kind}", expected "default" or one of: ${operationKinds.join(", ")}`);
+            }
+            const retries = Number(value);
+            if (!Number.isInteger(retries) || retries < 0) {
+                throw new InvalidArgumentError(`Invalid retry count "${value}"`);
+            }
+            const policyKind = kind as OperationKind | "default";
+            operations[policyKind] = { ...operations[policyKind], retries };
+        })
+        .option("--reconnect <ATTEMPTS>", "Reconnect up to ATTEMPTS times when a device is lost", (value: string) => {
+            const attempts = Number(value);
+            if (!Number.isInteger(attempts) || attempts < 0) {
+                throw new InvalidArgumentError(`Invalid reconnect attempts "${value}"`);
+            }
+            reconnect = { attempts };
+        })
+        .option("--max-duration <MS>", "Stop after running for MS milliseconds", (value: string) => {
+            const duration = Number(value);
+            if (!Number.isFinite(duration) || duration < 0) {
+                throw new InvalidArgumentError(`Invalid duration "${value}", expected milliseconds`);
+            }
+            exit.duration = duration;
+        })
+        .option("--until-exit <PROCESS>", "Stop when the process with this PID or name exits, with its exit status", (spec: string) => {
+            if (/^\d+$/.test(spec)) {
+                exit.processExit = parseInt(spec, 10);
+            } else {
+                checkArgument(() => compilePattern(spec));
+                exit.processExit = spec;
+            }
+        })
+        .option("--until-messages <N>", "Stop after N agent messages, or N matching --message-match", (value: string) => {
+            const count = Number(value);
+            if (!Number.isInteger(count) || count < 1) {
+                throw new InvalidArgumentError(`Invalid message count "${value}"`);
+            }
+            exit.messages = { ...exit.messages, count };
+        })
+        .option("--message-match <PATH=PATTERN>", "Only count messages whose payload field at PATH matches PATTERN", (assignment: string) => {
+            const [path, pattern] = parseAssignment("--message-match", assignment);
+            checkArgument(() => compilePattern(pattern));
+            const match = exit.messages?.match;
+            exit.messages = {
+                ...exit.messages,
+                match: { ...((typeof match === "object") ? match : {}), [path]: pattern },
+            };
+        })
+        .option("--until-complete", "Stop once an agent's whenComplete() returns", () => {
+            exit.completion = true;
+        })
+        .option("-d, --data-dir <DIR>", "Save binary data sent by agents to DIR", (dir: string) => {
+            dataDir = dir;
+        })
+        .option("-c, --config <FILE>", "Load targets from JSON or YAML FILE", (file: string) => {
+            configFile = file;
+        })
         .option("-U, --usb", "Connect to USB device", () => {
             openNewTarget({ kind: "usb" });
         })
@@ -124,11 +830,59 @@ function parseArguments(): Arguments {
                 id: id
             });
         })
-        .option("-f, --file [FILE]", "Spawn FILE", (file: string) => {
-            addTargetProcess({
+        .option("-f, --file [FILE]", "Spawn FILE, passing any arguments following --", (file: string) => {
+            spawnTarget = {
                 kind: "spawn",
                 program: file
+            };
+            addTargetProcess(spawnTarget);
+        })
+        .option("--env <NAME=VALUE>", "Set environment variable for the spawned FILE", (assignment: string) => {
+            const [name, value] = parseAssignment("--env", assignment);
+            const target = getSpawnTarget("--env");
+            target.env = { ...target.env, [name]: value };
+        })
+        .option("--cwd <DIR>", "Spawn FILE in working directory DIR", (dir: string) => {
+            getSpawnTarget("--cwd").cwd = dir;
+        })
+        .option("--stdio <MODE>", "Set stdio mode of spawned FILE to inherit or pipe", (mode: string) => {
+            if (mode !== "inherit" && mode !== "pipe") {
+                throw new InvalidArgumentError(`Invalid stdio mode "${mode}", expected "inherit" or "pipe"`);
+            }
+            getSpawnTarget("--stdio").stdio = mode;
+        })
+        .option("--aux <NAME=VALUE>", "Set auxiliary spawn option, with VALUE parsed as JSON if possible", (assignment: string) => {
+            const [name, value] = parseAssignment("--aux", assignment);
+            let parsedValue: unknown;
+            try {
+                parsedValue = JSON.parse(value);
+            } catch (e) {
+                parsedValue = value;
+            }
+            const target = getSpawnTarget("--aux");
+            target.aux = { ...target.aux, [name]: parsedValue };
+        })
+        .option("--child-depth <N>", "Only instrument descendants up to N levels deep, 0 for none", (value: string) => {
+            const maxDepth = Number(value);
+            if (!Number.isInteger(maxDepth) || maxDepth < 0) {
+                throw new InvalidArgumentError(`Invalid child depth "${value}"`);
+            }
+            const target = getCurrentTarget();
+            target.children = { ...target.children, maxDepth };
+        })
+        .option("--child-origins <LIST>", "Only instrument children from a comma-separated list of fork, exec and spawn", (list: string) => {
+            const origins = list.split(",").map(origin => {
+                if (origin !== "fork" && origin !== "exec" && origin !== "spawn") {
+                    throw new InvalidArgumentError(`Invalid child origin "${origin}", expected "fork", "exec" or "spawn"`);
+                }
+                return origin as ChildOrigin;
             });
+            const target = getCurrentTarget();
+            target.children = { ...target.children, origins };
+        })
+        .option("--children <MATCHER>", "Only instrument children matching MATCHER, using the syntax of -a", (spec: string) => {
+            const target = getCurrentTarget();
+            target.children = { ...target.children, ...checkArgument(() => parseMatcherSpec(spec)) };
         })
         .option("-n, --attach-name [NAME]", "Attach to NAME", (name: string) => {
             addTargetProcess({
@@ -136,17 +890,32 @@ function parseArguments(): Arguments {
                 name: name
             });
         })
-        .option("-a, --all-by-name [NAME]", "Attach to all processes named NAME", (name: string) => {
-            addTargetProcess({
-                kind: "all-by-name",
-                name: name
-            });
+        .option("-a, --all-by-name [NAME]", "Attach to all processes named or matching NAME", (name: string) => {
+            watchTarget = isMatcherSpec(name)
+                ? makeMatchingTarget("all", name)
+                : {
+                    kind: "all-by-name",
+                    name: name
+                };
+            addTargetProcess(watchTarget);
         })
-        .option("-1, --any-by-name [NAME]", "Attach to any process named NAME", (name: string) => {
-            addTargetProcess({
-                kind: "any-by-name",
-                name: name
-            });
+        .option("--max-matches <N>", "Stop watching for processes matching -a once N have been attached to", (value: string) => {
+            const maxMatches = Number(value);
+            if (!Number.isInteger(maxMatches) || maxMatches < 1) {
+                throw new InvalidArgumentError(`Invalid match count "${value}"`);
+            }
+            if (watchTarget === null) {
+                throw new InvalidArgumentError("--max-matches must follow -a");
+            }
+            watchTarget.maxMatches = maxMatches;
+        })
+        .option("-1, --any-by-name [NAME]", "Attach to any process named or matching NAME", (name: string) => {
+            addTargetProcess(isMatcherSpec(name)
+                ? makeMatchingTarget("any", name)
+                : {
+                    kind: "any-by-name",
+                    name: name
+                });
         })
         .option("-p, --attach-pid [PID]", "Attach to PID", (id: string) => {
             const pid = parseInt(id, 10);
@@ -160,11 +929,13 @@ function parseArguments(): Arguments {
                 kind: "by-frontmost"
             });
         })
-        .option("-w, --wait [NAME]", "Attach to NAME as soon as it's spawned", (name: string) => {
-            addTargetProcess({
-                kind: "by-gating",
-                name: name
-            });
+        .option("-w, --wait [NAME]", "Attach to NAME, or a process matching it, as soon as it's spawned", (name: string) => {
+            addTargetProcess(isMatcherSpec(name)
+                ? makeMatchingTarget("gating", name)
+                : {
+                    kind: "by-gating",
+                    name: name
+                });
         })
         .parse(process.argv);
 
@@ -172,9 +943,46 @@ function parseArguments(): Arguments {
         program.help();
     }
 
+    const separatorIndex = process.argv.indexOf("--");
+    const programArgs = (separatorIndex !== -1) ? process.argv.slice(separatorIndex + 1) : [];
+    const positionalArgs = program.args.slice(0, program.args.length - programArgs.length);
+
+    if (programArgs.length !== 0) {
+        const target = spawnTarget ?? addTargetProcess({
+            kind: "spawn",
+            program: programArgs.shift()!
+        }) as TargetProcessSpawn;
+        target.argv = [target.program, ...programArgs];
+    }
+
+    if (traceSpecs.length !== 0) {
+        agent.trace = backtrace ? traceSpecs.map(spec => ({ ...spec, backtrace: true })) : traceSpecs;
+    } else if (backtrace) {
+        throw new Error("--backtrace requires -i");
+    }
+
+    const memory: MemoryInspection = {};
+    if (scanPattern !== null) {
+        memory.scan = { pattern: scanPattern, protection: scanProtection };
+    }
+    if (dumpProtection !== null) {
+        if (dataDir === null) {
+            throw new Error("--dump requires --data-dir");
+        }
+        memory.dump = { protection: dumpProtection, directory: dataDir };
+    }
+
+    if (diffFiles.length !== 0 && diffFiles.length !== 2) {
+        throw new Error("--diff expects two snapshots");
+    }
+
+    if (tree && outputFormat !== "text") {
+        throw new Error("--tree requires text output");
+    }
+
     const numTargetProcesses = targets.reduce((total, target) => total + target.processes.length, 0);
-    if (numTargetProcesses === 0) {
-        addTargetProcess(inferTargetProcess(program));
+    if (numTargetProcesses === 0 && listKind === null && replayFile === null && diffFiles.length === 0 && (configFile === null || positionalArgs.length !== 0)) {
+        addTargetProcess(inferTargetProcess(positionalArgs));
     }
 
     function openNewTarget(device: TargetDevice): Target {
@@ -186,30 +994,146 @@ function parseArguments(): Arguments {
         return target;
     }
 
-    function addTargetProcess(process: TargetProcess) {
-        const target = (targets.length !== 0)
+    function getCurrentTarget(): Target {
+        return (targets.length !== 0)
             ? targets[targets.length - 1]
             : openNewTarget({ kind: "local" });
+    }
+
+    function addTargetProcess(process: TargetProcess): TargetProcess {
+        const target = getCurrentTarget();
 
         if (process.kind === "by-ids") {
             const processes = target.processes;
             const previous = processes[processes.length - 1];
             if (previous?.kind === "by-ids") {
                 previous.ids.push(...process.ids);
-                return;
+                return previous;
             }
         }
 
         target.processes.push(process);
+        return process;
+    }
+
+    function getSpawnTarget(option: string): TargetProcessSpawn {
+        if (spawnTarget === null) {
+            throw new InvalidArgumentError(`${option} must follow -f`);
+        }
+        return spawnTarget;
     }
 
     return {
+        configFile,
+        outputFormat,
+        dataDir,
+        agent,
+        scripts,
+        watchAgent,
+        interactive,
+        tree,
+        list: listKind,
+        listParameters,
+        record,
+        replay: replayFile,
+        replaySpeed,
+        trace,
+        snapshot,
+        snapshotDetails,
+        diff: (diffFiles.length !== 0) ? [diffFiles[0], diffFiles[1]] : null,
+        memory,
+        control,
+        controlToken,
+        operations,
+        reconnect,
+        exit,
         targets,
     };
 }
 
-function inferTargetProcess(prog: Command): TargetProcess {
-    const spec = prog.args[0];
+function makeMatchingTarget(mode: MatchingMode, spec: string): TargetProcessMatching {
+    return {
+        kind: "matching",
+        mode,
+        ...checkArgument(() => parseMatcherSpec(spec)),
+    };
+}
+
+/**
+ * Has commander report errors from parsing an option's value as it does its
+ * own, rather than as a crash.
+ */
+function checkArgument<T>(parse: () => T): T {
+    try {
+        return parse();
+    } catch (e) {
+        throw new InvalidArgumentError((e as Error).message);
+    }
+}
+
+function parseControlAddress(address: string): ControlServerOptions {
+    if (address.includes("/")) {
+        return { socket: address };
+    }
+
+    const separatorIndex = address.lastIndexOf(":");
+    const host = (separatorIndex !== -1) ? address.substring(0, separatorIndex).replace(/^\[(.*)\]$/, "$1") : undefined;
+    const port = parseInt(address.substring(separatorIndex + 1), 10);
+    if (isNaN(port)) {
+        throw new InvalidArgumentError(`Invalid control address "${address}"`);
+    }
+    if (host !== undefined && !isLoopbackHost(host)) {
+        throw new InvalidArgumentError(`Control address "${address}" is not on a loopback host`);
+    }
+
+    return { host, port };
+}
+
+/**
+ * Parses `PATTERN[(FORMAT,...)][->FORMAT]`, with the formats saying how to
+ * render the arguments and the return value.
+ */
+function parseTraceSpec(kind: TraceSpec["kind"], spec: string): TraceSpec {
+    const match = /^(.+?)(?:\(([^()]*)\))?(?:->(\w+))?$/.exec(spec);
+    if (match === null) {
+        throw new InvalidArgumentError(`Invalid function "${spec}"`);
+    }
+    const [, pattern, args, retval] = match;
+
+    const traceSpec: TraceSpec = { kind, pattern };
+    if (args !== undefined) {
+        traceSpec.args = (args !== "") ? args.split(",").map(format => parseValueFormat(spec, format.trim())) : [];
+    }
+    if (retval !== undefined) {
+        traceSpec.retval = parseValueFormat(spec, retval);
+    }
+    return traceSpec;
+}
+
+function parseValueFormat(spec: string, format: string): ValueFormat {
+    if (!valueFormats.includes(format as ValueFormat)) {
+        throw new InvalidArgumentError(`Invalid format "${format}" in "${spec}", expected one of: ${valueFormats.join(", ")}`);
+    }
+    return format as ValueFormat;
+}
+
+function parseProtection(protection: string): string {
+    if (!/^[r-][w-][x-]$/.test(protection)) {
+        throw new InvalidArgumentError(`Invalid protection "${protection}", expected e.g. "r--" or "rw-"`);
+    }
+    return protection;
+}
+
+function parseAssignment(option: string, assignment: string): [string, string] {
+    const separatorIndex = assignment.indexOf("=");
+    if (separatorIndex <= 0) {
+        throw new InvalidArgumentError(`${option} expects NAME=VALUE, got "${assignment}"`);
+    }
+    return [assignment.substring(0, separatorIndex), assignment.substring(separatorIndex + 1)];
+}
+
+function inferTargetProcess(args: string[]): TargetProcess {
+    const spec = args[0];
     if (spec === undefined) {
         throw new Error("Expected a target");
     }
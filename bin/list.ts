@@ -0,0 +1,117 @@
+import {
+    AgentIdentity,
+    Application,
+    Delegate,
+    LogLevel,
+    ModuleInfo,
+    Operation,
+    ProcessExit,
+    RunSummary,
+    ScriptError,
+    SessionDetachReason,
+    StopReason,
+    TargetDevice,
+    TracedCall,
+} from "../lib/index.js";
+import { formatTable } from "./table.js";
+
+import chalk from "chalk";
+
+export type ListKind = "devices" | "processes" | "applications";
+
+type Row = { [column: string]: any };
+
+export async function list(app: Application, kind: ListKind, targetDevice: TargetDevice, json: boolean,
+        withParameters: boolean): Promise<void> {
+    let rows: Row[];
+    switch (kind) {
+        case "devices":
+            rows = await app.enumerateDevices();
+            break;
+        case "processes":
+            rows = await app.enumerateProcesses(targetDevice, withParameters);
+            break;
+        case "applications":
+            rows = await app.enumerateApplications(targetDevice, withParameters);
+            break;
+    }
+
+    rows = rows.map(({ parameters, ...row }) => {
+        return (withParameters && parameters !== undefined) ? { ...row, parameters: omitIcons(parameters) } : row;
+    });
+
+    if (json) {
+        for (const row of rows) {
+            process.stdout.write(JSON.stringify(row) + "\n");
+        }
+        return;
+    }
+
+    const columns = (rows.length !== 0) ? Object.keys(rows[0]) : [];
+    const cells = rows.map(row => columns.map(column => formatCell(row[column])));
+    process.stdout.write(formatTable(columns.map(c => c.toUpperCase()), cells));
+}
+
+/**
+ * Keeps listings free of operation progress, reporting only problems.
+ */
+export class ListUI implements Delegate {
+    public onProgress(operation: Operation): void {
+    }
+
+    public onConsoleMessage(scope: string, level: LogLevel, text: string): void {
+        if (level !== LogLevel.Info) {
+            process.stderr.write(`[${scope}] ${chalk.yellowBright(text)}\n`);
+        }
+    }
+
+    public onOutput(scope: string, pid: number, fd: number, data: Buffer): void {
+    }
+
+    public onAgentMessage(agent: AgentIdentity, payload: any, data: Buffer | null): void {
+    }
+
+    public onAgentError(agent: AgentIdentity, error: ScriptError): void {
+    }
+
+    public onTracedCalls(agent: AgentIdentity, calls: TracedCall[]): void {
+    }
+
+    public onModulesLoaded(agent: AgentIdentity, modules: ModuleInfo[]): void {
+    }
+
+    public onAttached(agent: AgentIdentity): void {
+    }
+
+    public onDetached(agent: AgentIdentity, reason: SessionDetachReason, exit: ProcessExit | null): void {
+    }
+
+    public onReconnecting(device: string, attempt: number, maxAttempts: number): void {
+    }
+
+    public onReconnected(device: string, attempts: number): void {
+    }
+
+    public onStopped(reason: StopReason): void {
+    }
+
+    public onSummary(summary: RunSummary): void {
+    }
+}
+
+function omitIcons(parameters: { [name: string]: any }): { [name: string]: any } {
+    const { icons, ...rest } = parameters;
+    return rest;
+}
+
+function formatCell(value: any): string {
+    if (value === null || value === undefined) {
+        return "-";
+    }
+    if (typeof value === "object") {
+        return Object.entries(value)
+            .map(([k, v]) => `${k}=${(typeof v === "string") ? v : JSON.stringify(v)}`)
+            .join(" ");
+    }
+    return String(value);
+}
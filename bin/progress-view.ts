@@ -0,0 +1,118 @@
+import { Operation } from "../lib/index.js";
+
+import chalk from "chalk";
+import prettyHrtime from "pretty-hrtime";
+
+const spinnerFrames = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"];
+const spinnerInterval = 80;
+
+/**
+ * Shows the operations in flight at the bottom of the terminal, each below
+ * the operation it is part of, with other output written above them.
+ */
+export class ProgressView {
+    #operations: Operation[] = [];
+    #numDrawnLines = 0;
+    #frame = 0;
+    #timer: NodeJS.Timeout | null = null;
+
+    public add(operation: Operation): void {
+        this.#operations.push(operation);
+
+        if (this.#timer === null) {
+            this.#timer = setInterval(this.#onTick, spinnerInterval);
+            this.#timer.unref();
+        }
+
+        this.#redraw("");
+    }
+
+    public remove(operation: Operation): void {
+        const operations = this.#operations;
+        const index = operations.indexOf(operation);
+        if (index !== -1) {
+            operations.splice(index, 1);
+        }
+
+        if (operations.length === 0 && this.#timer !== null) {
+            clearInterval(this.#timer);
+            this.#timer = null;
+        }
+
+        this.#redraw("");
+    }
+
+    public write(stream: NodeJS.WriteStream, text: string): void {
+        if (stream === process.stdout) {
+            this.#redraw(text);
+        } else {
+            this.#clear();
+            stream.write(text);
+            this.#redraw("");
+        }
+    }
+
+    #onTick = (): void => {
+        this.#frame = (this.#frame + 1) % spinnerFrames.length;
+        this.#redraw("");
+    };
+
+    #clear(): void {
+        if (this.#numDrawnLines !== 0) {
+            process.stdout.write(`\x1b[${this.#numDrawnLines}A\x1b[0J`);
+            this.#numDrawnLines = 0;
+        }
+    }
+
+    #redraw(text: string): void {
+        const lines = this.#render();
+
+        let output = (this.#numDrawnLines !== 0) ? `\x1b[${this.#numDrawnLines}A\x1b[0J` : "";
+        output += text;
+        output += lines.map(line => `${line}\n`).join("");
+        if (output.length !== 0) {
+            process.stdout.write(output);
+        }
+
+        this.#numDrawnLines = lines.length;
+    }
+
+    #render(): string[] {
+        const operations = this.#operations;
+        const columns = process.stdout.columns ?? 80;
+        const maxLines = Math.max((process.stdout.rows ?? 24) - 1, 1);
+
+        const inFlight = new Set(operations.map(op => op.id));
+        const spinner = chalk.cyan(spinnerFrames[this.#frame]);
+
+        const lines: string[] = [];
+        const renderChildren = (parentId: number | null, depth: number) => {
+            for (const operation of operations) {
+                const isChild = (parentId !== null)
+                    ? operation.parentId === parentId
+                    : operation.parentId === null || !inFlight.has(operation.parentId);
+                if (!isChild) {
+                    continue;
+                }
+
+                const indent = "  ".repeat(depth);
+                const text = `[${operation.scope}] ${operation.description} ${prettyHrtime(operation.elapsed)}`;
+                lines.push(`${indent}${spinner} ${chalk.gray(truncate(text, columns - indent.length - 3))}`);
+
+                renderChildren(operation.id, depth + 1);
+            }
+        };
+        renderChildren(null, 0);
+
+        if (lines.length > maxLines) {
+            const numHidden = lines.length - maxLines + 1;
+            lines.splice(maxLines - 1, numHidden, chalk.gray(`… and ${numHidden} more`));
+        }
+
+        return lines;
+    }
+}
+
+function truncate(text: string, length: number): string {
+    return (text.length > length) ? `${text.substring(0, Math.max(length - 1, 0))}…` : text;
+}
@@ -0,0 +1,252 @@
+import {
+    AgentIdentity,
+    Application,
+} from "../lib/index.js";
+
+import chalk from "chalk";
+import * as readline from "readline";
+import { inspect } from "util";
+
+const commands = [".agents", ".select", ".exports", ".scripts", ".load", ".unload", ".reload", ".help", ".quit"];
+
+export class Repl {
+    #app: Application;
+    #rl: readline.Interface;
+    #output: NodeJS.WriteStream;
+    #selection: string[] | null = null;
+    #exports = new Map<string, string[]>();
+
+    /**
+     * Prompts and prints to `output`, which is stderr when stdout carries JSONL
+     * events.
+     */
+    constructor(app: Application, onQuit: () => void, output: NodeJS.WriteStream = process.stdout) {
+        this.#app = app;
+        this.#output = output;
+
+        this.#rl = readline.createInterface({
+            input: process.stdin,
+            output,
+            completer: this.#complete,
+        });
+        this.#rl.setPrompt("> ");
+        this.#rl.on("line", this.#onLine);
+        this.#rl.on("SIGINT", onQuit);
+        this.#rl.on("close", onQuit);
+    }
+
+    public start(): void {
+        this.#print(chalk.gray("Type .help for help"));
+        this.#rl.prompt();
+    }
+
+    public close(): void {
+        this.#rl.removeAllListeners("close");
+        this.#rl.close();
+    }
+
+    #onLine = async (line: string): Promise<void> => {
+        const input = line.trim();
+
+        try {
+            if (input.startsWith(".")) {
+                await this.#runCommand(input);
+            } else if (input.length !== 0) {
+                await this.#callExport(input);
+            }
+        } catch (e) {
+            this.#print(chalk.redBright((e as Error).message));
+        }
+
+        this.#rl.prompt();
+    };
+
+    async #runCommand(input: string): Promise<void> {
+        const [command, ...args] = input.split(/\s+/);
+
+        switch (command) {
+            case ".agents": {
+                const selected = new Set(this.#getSelectedAgents().map(a => a.scope));
+                this.#app.listAgents().forEach((agent, index) => {
+                    const marker = selected.has(agent.scope) ? "*" : " ";
+                    this.#print(`${marker} ${index + 1}. ${agent.scope}`);
+                });
+                break;
+            }
+            case ".select":
+                this.#select(args);
+                break;
+            case ".exports":
+                for (const agent of this.#getSelectedAgents()) {
+                    const names = await this.#app.listAgentExports(agent.scope);
+                    this.#exports.set(agent.scope, names);
+                    this.#print(`[${agent.scope}] ${(names.length !== 0) ? names.join(", ") : chalk.gray("unknown")}`);
+                }
+                break;
+            case ".scripts":
+                for (const agent of this.#getSelectedAgents()) {
+                    for (const { name, source, loaded } of this.#app.listScripts(agent.scope)) {
+                        this.#print(`[${agent.scope}] ${name} ${chalk.gray(source)}${loaded ? "" : chalk.yellow(" (unloaded)")}`);
+                    }
+                }
+                break;
+            case ".load":
+            case ".unload":
+            case ".reload":
+                await this.#manageScript(command, args);
+                break;
+            case ".help":
+                this.#print([
+                    ".agents                 List attached agents, marking selected ones with *",
+                    ".select all|SPEC...     Select agents by number, PID or name:pid@device",
+                    ".exports                List RPC exports of selected agents",
+                    ".scripts                List scripts of selected agents",
+                    ".load NAME              Load script NAME into selected agents",
+                    ".unload NAME            Unload script NAME from selected agents",
+                    ".reload NAME            Reload script NAME of selected agents",
+                    ".quit                   Detach and exit",
+                    "EXPORT [ARG, ...]       Call EXPORT on selected agents with JSON arguments",
+                    "SCRIPT.EXPORT [ARG, ...]",
+                    "                        Call EXPORT of script SCRIPT instead of the agent's own",
+                ].join("\n"));
+                break;
+            case ".quit":
+                this.#rl.close();
+                break;
+            default:
+                throw new Error(`Unknown command ${command}, try .help`);
+        }
+    }
+
+    async #manageScript(command: string, args: string[]): Promise<void> {
+        if (args.length !== 1) {
+            throw new Error(`Usage: ${command} NAME`);
+        }
+        const [name] = args;
+
+        for (const agent of this.#getSelectedAgents()) {
+            try {
+                switch (command) {
+                    case ".load":
+                        await this.#app.loadScript(agent.scope, name);
+                        break;
+                    case ".unload":
+                        await this.#app.unloadScript(agent.scope, name);
+                        break;
+                    default:
+                        await this.#app.reloadScript(agent.scope, name);
+                        break;
+                }
+                this.#exports.delete(this.#getScriptScope(agent, name));
+            } catch (e) {
+                this.#print(`[${agent.scope}] ${chalk.redBright((e as Error).message)}`);
+            }
+        }
+    }
+
+    #select(specs: string[]): void {
+        if (specs.length === 0 || specs.includes("all")) {
+            this.#selection = null;
+            return;
+        }
+
+        const agents = this.#app.listAgents();
+
+        this.#selection = specs.map(spec => {
+            const index = parseInt(spec, 10);
+            const agent = agents.find(a => a.scope === spec)
+                ?? agents.find(a => String(a.pid) === spec)
+                ?? ((String(index) === spec) ? agents[index - 1] : undefined);
+            if (agent === undefined) {
+                throw new Error(`No agent matching ${spec}`);
+            }
+            return agent.scope;
+        });
+    }
+
+    async #callExport(input: string): Promise<void> {
+        const separatorIndex = input.search(/\s/);
+        const method = (separatorIndex !== -1) ? input.substring(0, separatorIndex) : input;
+        const rawArgs = (separatorIndex !== -1) ? input.substring(separatorIndex + 1).trim() : "";
+
+        let args: any[];
+        try {
+            args = JSON.parse(`[${rawArgs}]`);
+        } catch (e) {
+            throw new Error(`Invalid arguments, expected comma-separated JSON values: ${(e as Error).message}`);
+        }
+
+        const agents = this.#getSelectedAgents();
+        if (agents.length === 0) {
+            throw new Error("No agents selected");
+        }
+
+        const dotIndex = method.indexOf(".");
+
+        await Promise.all(agents.map(async agent => {
+            try {
+                const result = (dotIndex !== -1)
+                    ? await this.#app.callAgent(this.#getScriptScope(agent, method.substring(0, dotIndex)),
+                        method.substring(dotIndex + 1), args)
+                    : await this.#app.callAgent(agent.scope, method, args);
+                this.#print(`[${agent.scope}] ${inspect(result, { colors: chalk.level > 0, depth: 4 })}`);
+            } catch (e) {
+                this.#print(`[${agent.scope}] ${chalk.redBright((e as Error).message)}`);
+            }
+        }));
+    }
+
+    #getScriptScope(agent: AgentIdentity, name: string): string {
+        const script = this.#app.listScripts(agent.scope).find(s => s.name === name);
+        if (script === undefined) {
+            throw new Error(`No script named "${name}"`);
+        }
+        return script.scope;
+    }
+
+    #getSelectedAgents(): AgentIdentity[] {
+        const agents = this.#app.listAgents();
+
+        const selection = this.#selection;
+        if (selection === null) {
+            return agents;
+        }
+
+        return agents.filter(a => selection.includes(a.scope));
+    }
+
+    #complete = (line: string, callback: (error: Error | null, result: readline.CompleterResult) => void): void => {
+        if (line.startsWith(".")) {
+            callback(null, [commands.filter(c => c.startsWith(line)), line]);
+            return;
+        }
+
+        if (/\s/.test(line)) {
+            callback(null, [[], line]);
+            return;
+        }
+
+        this.#getExportNames()
+            .then(names => callback(null, [names.filter(n => n.startsWith(line)), line]))
+            .catch(() => callback(null, [[], line]));
+    };
+
+    async #getExportNames(): Promise<string[]> {
+        const names = new Set<string>();
+
+        for (const agent of this.#getSelectedAgents()) {
+            let agentNames = this.#exports.get(agent.scope);
+            if (agentNames === undefined) {
+                agentNames = await this.#app.listAgentExports(agent.scope);
+                this.#exports.set(agent.scope, agentNames);
+            }
+            agentNames.forEach(n => names.add(n));
+        }
+
+        return Array.from(names).sort();
+    }
+
+    #print(text: string): void {
+        this.#output.write(`${text}\n`);
+    }
+}
@@ -0,0 +1,57 @@
+import { ModuleInfo, SnapshotDiff } from "../lib/index.js";
+
+import chalk from "chalk";
+
+/**
+ * Prints the modules added, removed and changed, one per line or as JSON
+ * Lines, returning whether there were any differences.
+ */
+export function printSnapshotDiff(diff: SnapshotDiff, json: boolean): boolean {
+    const { added, removed, changed } = diff;
+
+    if (json) {
+        for (const module of added) {
+            process.stdout.write(JSON.stringify({ type: "module-added", ...describe(module) }) + "\n");
+        }
+        for (const module of removed) {
+            process.stdout.write(JSON.stringify({ type: "module-removed", ...describe(module) }) + "\n");
+        }
+        for (const { name, before, after, exportsAdded, exportsRemoved } of changed) {
+            process.stdout.write(JSON.stringify({
+                type: "module-changed",
+                name,
+                before: describe(before),
+                after: describe(after),
+                exportsAdded,
+                exportsRemoved,
+            }) + "\n");
+        }
+    } else {
+        let output = "";
+        for (const module of added) {
+            output += chalk.green(`+ ${module.name} ${chalk.gray(module.path)}`) + "\n";
+        }
+        for (const module of removed) {
+            output += chalk.red(`- ${module.name} ${chalk.gray(module.path)}`) + "\n";
+        }
+        for (const { name, before, after, exportsAdded, exportsRemoved } of changed) {
+            output += chalk.yellow(`~ ${name}`) + "\n";
+            if (before.path !== after.path) {
+                output += `    path ${before.path} → ${after.path}\n`;
+            }
+            if (before.size !== after.size) {
+                output += `    size ${before.size} → ${after.size}\n`;
+            }
+            output += exportsAdded.map(e => chalk.green(`    + ${e}`) + "\n").join("");
+            output += exportsRemoved.map(e => chalk.red(`    - ${e}`) + "\n").join("");
+        }
+        process.stdout.write(output);
+    }
+
+    return added.length !== 0 || removed.length !== 0 || changed.length !== 0;
+}
+
+function describe(module: ModuleInfo): Pick<ModuleInfo, "name" | "path" | "size"> {
+    const { name, path, size } = module;
+    return { name, path, size };
+}
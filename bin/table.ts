@@ -0,0 +1,11 @@
+import chalk from "chalk";
+
+/**
+ * Lays out rows in left-aligned columns below a bold header.
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+    const widths = headers.map((header, i) => Math.max(header.length, ...rows.map(row => row[i].length)));
+
+    const formatLine = (values: string[]) => values.map((v, i) => v.padEnd(widths[i])).join("  ").trimEnd();
+    return [chalk.bold(formatLine(headers)), ...rows.map(formatLine)].map(line => `${line}\n`).join("");
+}
@@ -0,0 +1,165 @@
+import {
+    AgentIdentity,
+    Application,
+    Delegate,
+    DeviceProcessTree,
+    ForwardingDelegate,
+    LogLevel,
+    ModuleInfo,
+    Operation,
+    ProcessExit,
+    ProcessNode,
+    RunSummary,
+    ScriptError,
+    SessionDetachReason,
+    StopReason,
+    TracedCall,
+} from "../lib/index.js";
+
+import chalk from "chalk";
+
+/**
+ * Renders the tree of instrumented processes below other output, redrawing it
+ * whenever a process is attached or detached. On a terminal the previous
+ * rendering is replaced if nothing has been written since.
+ */
+export class TreeView extends ForwardingDelegate {
+    #app: Application | null = null;
+    #numDrawnLines = 0;
+    #redrawPending = false;
+
+    constructor(delegate: Delegate) {
+        super(delegate);
+    }
+
+    public start(app: Application): void {
+        this.#app = app;
+    }
+
+    public onProgress(operation: Operation): void {
+        super.onProgress(operation);
+        this.#numDrawnLines = 0;
+        operation.onceComplete(() => {
+            this.#numDrawnLines = 0;
+        });
+    }
+
+    public onConsoleMessage(scope: string, level: LogLevel, text: string): void {
+        super.onConsoleMessage(scope, level, text);
+        this.#numDrawnLines = 0;
+    }
+
+    public onOutput(scope: string, pid: number, fd: number, data: Buffer): void {
+        super.onOutput(scope, pid, fd, data);
+        this.#numDrawnLines = 0;
+    }
+
+    public onAgentMessage(agent: AgentIdentity, payload: any, data: Buffer | null): void {
+        super.onAgentMessage(agent, payload, data);
+        this.#numDrawnLines = 0;
+    }
+
+    public onAgentError(agent: AgentIdentity, error: ScriptError): void {
+        super.onAgentError(agent, error);
+        this.#numDrawnLines = 0;
+    }
+
+    public onTracedCalls(agent: AgentIdentity, calls: TracedCall[]): void {
+        super.onTracedCalls(agent, calls);
+        this.#numDrawnLines = 0;
+    }
+
+    public onModulesLoaded(agent: AgentIdentity, modules: ModuleInfo[]): void {
+        super.onModulesLoaded(agent, modules);
+        this.#numDrawnLines = 0;
+    }
+
+    public onAttached(agent: AgentIdentity): void {
+        super.onAttached(agent);
+        this.#scheduleRedraw();
+    }
+
+    public onDetached(agent: AgentIdentity, reason: SessionDetachReason, exit: ProcessExit | null): void {
+        super.onDetached(agent, reason, exit);
+        this.#scheduleRedraw();
+    }
+
+    public onReconnecting(device: string, attempt: number, maxAttempts: number): void {
+        super.onReconnecting(device, attempt, maxAttempts);
+        this.#numDrawnLines = 0;
+    }
+
+    public onReconnected(device: string, attempts: number): void {
+        super.onReconnected(device, attempts);
+        this.#numDrawnLines = 0;
+    }
+
+    public onStopped(reason: StopReason): void {
+        super.onStopped(reason);
+        this.#numDrawnLines = 0;
+    }
+
+    public onSummary(summary: RunSummary): void {
+        super.onSummary(summary);
+        this.#numDrawnLines = 0;
+    }
+
+    #scheduleRedraw(): void {
+        if (this.#redrawPending) {
+            return;
+        }
+        this.#redrawPending = true;
+
+        // Detaches are reported before the tree is updated.
+        setImmediate(() => {
+            this.#redrawPending = false;
+            this.#redraw();
+        });
+    }
+
+    #redraw(): void {
+        const app = this.#app;
+        if (app === null) {
+            return;
+        }
+
+        const lines = renderTree(app.getProcessTree());
+
+        let output = "";
+        if (process.stdout.isTTY && this.#numDrawnLines !== 0) {
+            output += `\x1b[${this.#numDrawnLines}A\x1b[0J`;
+        }
+        output += lines.map(line => `${line}\n`).join("");
+        process.stdout.write(output);
+
+        this.#numDrawnLines = lines.length;
+    }
+}
+
+export function renderTree(trees: DeviceProcessTree[]): string[] {
+    const lines: string[] = [];
+
+    for (const { device, processes } of trees) {
+        lines.push(chalk.bold(device.name));
+        renderNodes(processes, "", lines);
+    }
+
+    if (lines.length === 0) {
+        lines.push(chalk.gray("No processes instrumented"));
+    }
+
+    return lines;
+}
+
+function renderNodes(nodes: ProcessNode[], indent: string, lines: string[]): void {
+    nodes.forEach((node, index) => {
+        const isLast = index === nodes.length - 1;
+
+        const label = (node.scope !== null)
+            ? chalk.cyan(`${node.name}:${node.pid}`)
+            : chalk.gray(`${node.name}:${node.pid} (detached)`);
+        lines.push(`${indent}${isLast ? "└─ " : "├─ "}${label}`);
+
+        renderNodes(node.children, indent + (isLast ? "   " : "│  "), lines);
+    });
+}
@@ -0,0 +1,59 @@
+import {
+    AgentCommands,
+    AgentEvents,
+    CommandMessage,
+    CommandRequest,
+    CommandResponse,
+    EventMessage,
+    ReplyMessage,
+} from "./interfaces.js";
+
+export type CommandHandler<K extends keyof AgentCommands> =
+    (request: CommandRequest<K>) => CommandResponse<K> | Promise<CommandResponse<K>>;
+
+/**
+ * Emits events to the host and answers the commands it posts, replying with
+ * an error to commands without a handler.
+ */
+export class Channel {
+    #handlers = new Map<keyof AgentCommands, CommandHandler<any>>();
+    #receiving = false;
+
+    public emit<K extends keyof AgentEvents>(event: K, payload: AgentEvents[K]): void {
+        const message = { type: "event", event, payload } as EventMessage;
+        send(message);
+    }
+
+    public handle<K extends keyof AgentCommands>(command: K, handler: CommandHandler<K>): void {
+        this.#handlers.set(command, handler);
+
+        if (!this.#receiving) {
+            this.#receiving = true;
+            this.#receive();
+        }
+    }
+
+    #receive(): void {
+        recv("command", (message: CommandMessage) => {
+            // Each recv() only takes one message.
+            this.#receive();
+            this.#dispatch(message);
+        });
+    }
+
+    async #dispatch({ id, command, request }: CommandMessage): Promise<void> {
+        const reply: ReplyMessage = { type: "reply", id, response: null, error: null };
+
+        try {
+            const handler = this.#handlers.get(command);
+            if (handler === undefined) {
+                throw new Error(`Unknown command "${command}"`);
+            }
+            reply.response = (await handler(request)) ?? null;
+        } catch (e) {
+            reply.error = (e as Error).message;
+        }
+
+        send(reply);
+    }
+}
@@ -1,12 +1,108 @@
-import { AgentApi } from "./interfaces.js";
+import {
+    AgentApi,
+    AgentParameters,
+    ExitMessage,
+    MemoryScan,
+    ModuleInfo,
+    ModuleInventoryOptions,
+    RangeInfo,
+    ScanMatch,
+    TraceSpec,
+} from "./interfaces.js";
+import { Channel } from "./channel.js";
+import { ModuleWatcher, describeModules } from "./inventory.js";
+import { describeRanges, dumpMemory, scanMemory } from "./memory.js";
+import { Tracer } from "./tracer.js";
+
+const tracer = new Tracer();
+const moduleWatcher = new ModuleWatcher();
+const channel = new Channel();
 
 class Agent implements AgentApi {
-    public async init(): Promise<void> {
-        console.log(`Hello World from PID: ${Process.id}`);
+    public async init(parameters: AgentParameters): Promise<void> {
+        handleCommands();
+
+        console.log(`Hello World from PID: ${Process.id}, parameters: ${JSON.stringify(parameters)}`);
         console.warn("Example warning");
         console.error("Example error");
     }
+
+    public async listExports(): Promise<string[]> {
+        return Object.getOwnPropertyNames(Agent.prototype).filter(name => name !== "constructor");
+    }
+
+    public async whenComplete(): Promise<void> {
+        // All of the work is done by init().
+    }
+
+    public async startTracing(specs: TraceSpec[]): Promise<string[]> {
+        return tracer.start(specs);
+    }
+
+    public async getModules(options: ModuleInventoryOptions): Promise<ModuleInfo[]> {
+        return describeModules(options);
+    }
+
+    public async watchModules(): Promise<void> {
+        moduleWatcher.start();
+    }
+
+    public async watchExit(): Promise<void> {
+        reportExitStatus();
+    }
+
+    public async enumerateRanges(protection: string): Promise<RangeInfo[]> {
+        return describeRanges(protection);
+    }
+
+    public async scanMemory(scan: MemoryScan): Promise<ScanMatch[]> {
+        return scanMemory(scan);
+    }
+
+    public async dumpMemory(dumpId: number, address: string, offset: number, size: number): Promise<void> {
+        dumpMemory(dumpId, address, offset, size);
+    }
+}
+
+function handleCommands(): void {
+    let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+    let sequence = 0;
+
+    channel.handle("ping", ({ text }) => {
+        return { text, pid: Process.id };
+    });
+
+    channel.handle("set-heartbeat", ({ interval }) => {
+        if (heartbeatTimer !== null) {
+            clearInterval(heartbeatTimer);
+            heartbeatTimer = null;
+        }
+        if (interval > 0) {
+            heartbeatTimer = setInterval(() => {
+                channel.emit("heartbeat", { sequence: ++sequence, threads: Process.enumerateThreads().length });
+            }, interval);
+        }
+        return null;
+    });
+}
+
+function reportExitStatus(): void {
+    const exitFunctions = (Process.platform === "windows") ? ["ExitProcess"] : ["exit", "_exit"];
+
+    for (const name of exitFunctions) {
+        const impl = Module.findExportByName(null, name);
+        if (impl === null) {
+            continue;
+        }
+
+        Interceptor.attach(impl, {
+            onEnter(args) {
+                const message: ExitMessage = { type: "exit", status: args[0].toInt32() };
+                send(message);
+            }
+        });
+    }
 }
 
 const agent = new Agent();
-rpc.exports = Object.getPrototypeOf(agent);
\ No newline at end of file
+rpc.exports = Object.getPrototypeOf(agent);
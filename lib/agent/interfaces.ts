@@ -1,3 +1,233 @@
 export interface AgentApi {
-    init(): Promise<void>;
+    init(parameters: AgentParameters): Promise<void>;
+    listExports(): Promise<string[]>;
+
+    /**
+     * Resolves once the agent is done, for runs configured to end then.
+     */
+    whenComplete?(): Promise<void>;
+
+    /**
+     * Hooks the functions selected by `specs`, returning their names. Calls
+     * are reported in batches as `TraceMessage`s.
+     */
+    startTracing?(specs: TraceSpec[]): Promise<string[]>;
+
+    /**
+     * Describes the loaded modules, with their exports, imports and symbols
+     * only if asked for, as enumerating those can be slow.
+     */
+    getModules?(options: ModuleInventoryOptions): Promise<ModuleInfo[]>;
+
+    /**
+     * Starts reporting modules loaded from now on as `ModulesLoadedMessage`s.
+     */
+    watchModules?(): Promise<void>;
+
+    /**
+     * Starts reporting the status the process exits with as an `ExitMessage`.
+     */
+    watchExit?(): Promise<void>;
+
+    /**
+     * Lists the memory ranges with at least the given protection, e.g. "rw-",
+     * with adjacent ranges of the same protection merged.
+     */
+    enumerateRanges?(protection: string): Promise<RangeInfo[]>;
+
+    scanMemory?(scan: MemoryScan): Promise<ScanMatch[]>;
+
+    /**
+     * Sends the `size` bytes at `offset` into the range at `address` as a
+     * `MemoryChunkMessage` tagged with `dumpId`, before returning. Ranges are
+     * dumped by asking for them a chunk at a time.
+     */
+    dumpMemory?(dumpId: number, address: string, offset: number, size: number): Promise<void>;
 }
+
+/**
+ * Selects functions to trace, or not to trace. The pattern is either a
+ * `module!export` glob, an absolute address such as `0x1234`, or a glob
+ * matching debug symbols.
+ */
+export interface TraceSpec {
+    kind: "include" | "exclude";
+    pattern: string;
+
+    /**
+     * How to render each argument, with unlisted ones left out.
+     */
+    args?: ValueFormat[];
+    retval?: ValueFormat;
+    backtrace?: boolean;
+}
+
+export type ValueFormat = "pointer" | "int" | "uint" | "bool" | "string" | "utf16";
+
+export interface TracedCall {
+    function: string;
+    threadId: number;
+
+    /**
+     * Number of traced calls the thread was already inside of.
+     */
+    depth: number;
+
+    /**
+     * Time of entry in milliseconds since the epoch, by the target's clock.
+     */
+    timestamp: number;
+    duration: number;
+    args: string[];
+    retval: string | null;
+    backtrace: string[] | null;
+}
+
+export interface ModuleInventoryOptions {
+    exports?: boolean;
+    imports?: boolean;
+    symbols?: boolean;
+}
+
+/**
+ * A loaded module, with addresses given as hexadecimal strings.
+ */
+export interface ModuleInfo {
+    name: string;
+    path: string;
+    base: string;
+    size: number;
+    exports?: ExportInfo[];
+    imports?: ImportInfo[];
+    symbols?: SymbolInfo[];
+}
+
+export interface ExportInfo {
+    type: "function" | "variable";
+    name: string;
+    address: string;
+}
+
+export interface ImportInfo {
+    type: "function" | "variable" | null;
+    name: string;
+    module: string | null;
+    address: string | null;
+}
+
+export interface SymbolInfo {
+    type: string;
+    name: string;
+    address: string;
+    size: number | null;
+    isGlobal: boolean;
+}
+
+export interface ModulesLoadedMessage {
+    type: "modules-loaded";
+    modules: ModuleInfo[];
+}
+
+export interface RangeInfo {
+    base: string;
+    size: number;
+    protection: string;
+    file: { path: string, offset: number } | null;
+}
+
+export interface MemoryScan {
+    /**
+     * Hexadecimal bytes separated by spaces, with `??` matching any byte, e.g.
+     * "48 8b ?? 05".
+     */
+    pattern: string;
+
+    /**
+     * Protection of the ranges to scan, e.g. "r--".
+     */
+    protection: string;
+
+    maxMatches?: number;
+}
+
+export interface ScanMatch {
+    address: string;
+    size: number;
+
+    /**
+     * Name of the module the match is in, if any.
+     */
+    module: string | null;
+}
+
+/**
+ * Part of a memory dump, carrying the bytes at `offset` as binary data, with
+ * the `unreadable` ones among them left as zeros. There is no data when none
+ * of them could be read.
+ */
+export interface MemoryChunkMessage {
+    type: "memory-chunk";
+    dumpId: number;
+    offset: number;
+    size: number;
+    unreadable: number;
+}
+
+export interface TraceMessage {
+    type: "trace";
+    calls: TracedCall[];
+}
+
+/**
+ * Sent by an agent when its process is about to exit.
+ */
+export interface ExitMessage {
+    type: "exit";
+    status: number;
+}
+
+/**
+ * Events an agent emits to the host, by name, with their payloads.
+ */
+export interface AgentEvents {
+    heartbeat: { sequence: number, threads: number };
+}
+
+/**
+ * Commands the host posts to an agent, by name, with their requests and the
+ * responses the agent replies with.
+ */
+export interface AgentCommands {
+    ping: { request: { text: string }, response: { text: string, pid: number } };
+
+    /**
+     * Emits a heartbeat every `interval` milliseconds, or stops with 0.
+     */
+    "set-heartbeat": { request: { interval: number }, response: null };
+}
+
+export type AgentEvent = { [K in keyof AgentEvents]: { event: K, payload: AgentEvents[K] } }[keyof AgentEvents];
+export type CommandRequest<K extends keyof AgentCommands> = AgentCommands[K]["request"];
+export type CommandResponse<K extends keyof AgentCommands> = AgentCommands[K]["response"];
+
+export type EventMessage = { type: "event" } & AgentEvent;
+
+/**
+ * Posted by the host, with the agent answering by a `ReplyMessage` of the
+ * same `id`.
+ */
+export interface CommandMessage<K extends keyof AgentCommands = keyof AgentCommands> {
+    type: "command";
+    id: number;
+    command: K;
+    request: CommandRequest<K>;
+}
+
+export interface ReplyMessage {
+    type: "reply";
+    id: number;
+    response: any;
+    error: string | null;
+}
+
+export type AgentParameters = { [name: string]: any };
@@ -0,0 +1,87 @@
+import { ModuleInfo, ModuleInventoryOptions, ModulesLoadedMessage } from "./interfaces.js";
+
+const loaderFunctions = (Process.platform === "windows")
+    ? ["LoadLibraryExW"]
+    : ["dlopen", "android_dlopen_ext"];
+
+export function describeModules(options: ModuleInventoryOptions): ModuleInfo[] {
+    return Process.enumerateModules().map(m => describeModule(m, options));
+}
+
+function describeModule(module: Module, options: ModuleInventoryOptions): ModuleInfo {
+    const { name, path, base, size } = module;
+
+    const info: ModuleInfo = { name, path, base: base.toString(), size };
+    if (options.exports) {
+        info.exports = module.enumerateExports().map(({ type, name, address }) => ({
+            type,
+            name,
+            address: address.toString(),
+        }));
+    }
+    if (options.imports) {
+        info.imports = module.enumerateImports().map(({ type, name, module, address }) => ({
+            type: type ?? null,
+            name,
+            module: module ?? null,
+            address: (address !== undefined) ? address.toString() : null,
+        }));
+    }
+    if (options.symbols) {
+        info.symbols = module.enumerateSymbols().map(({ type, name, address, size, isGlobal }) => ({
+            type,
+            name,
+            address: address.toString(),
+            size: size ?? null,
+            isGlobal,
+        }));
+    }
+    return info;
+}
+
+/**
+ * Reports modules as they are loaded, by comparing the loaded modules with
+ * those already seen whenever one of the loader's functions returns.
+ */
+export class ModuleWatcher {
+    #known: Set<string> | null = null;
+
+    public start(): void {
+        if (this.#known !== null) {
+            return;
+        }
+        this.#known = new Set(Process.enumerateModules().map(m => m.path));
+
+        const watcher = this;
+        for (const name of loaderFunctions) {
+            const impl = Module.findExportByName(null, name);
+            if (impl === null) {
+                continue;
+            }
+
+            Interceptor.attach(impl, {
+                onLeave() {
+                    watcher.#check();
+                }
+            });
+        }
+    }
+
+    #check(): void {
+        const known = this.#known!;
+
+        const added = Process.enumerateModules().filter(m => !known.has(m.path));
+        if (added.length === 0) {
+            return;
+        }
+        for (const module of added) {
+            known.add(module.path);
+        }
+
+        const message: ModulesLoadedMessage = {
+            type: "modules-loaded",
+            modules: added.map(m => describeModule(m, {})),
+        };
+        send(message);
+    }
+}
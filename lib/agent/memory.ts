@@ -0,0 +1,66 @@
+import { MemoryChunkMessage, MemoryScan, RangeInfo, ScanMatch } from "./interfaces.js";
+
+const defaultMaxMatches = 1000;
+
+export function describeRanges(protection: string): RangeInfo[] {
+    return Process.enumerateRanges({ protection, coalesce: true }).map(({ base, size, protection, file }) => ({
+        base: base.toString(),
+        size,
+        protection,
+        file: (file !== undefined) ? { path: file.path, offset: file.offset } : null,
+    }));
+}
+
+export function scanMemory(scan: MemoryScan): ScanMatch[] {
+    const maxMatches = scan.maxMatches ?? defaultMaxMatches;
+    const pattern = new MatchPattern(scan.pattern);
+
+    const matches: ScanMatch[] = [];
+    for (const range of Process.enumerateRanges({ protection: scan.protection, coalesce: true })) {
+        let rangeMatches: MemoryScanMatch[];
+        try {
+            rangeMatches = Memory.scanSync(range.base, range.size, pattern);
+        } catch (e) {
+            // Ranges may be unmapped or made unreadable while scanning.
+            continue;
+        }
+
+        for (const { address, size } of rangeMatches) {
+            matches.push({ address: address.toString(), size, module: Process.findModuleByAddress(address)?.name ?? null });
+            if (matches.length === maxMatches) {
+                return matches;
+            }
+        }
+    }
+    return matches;
+}
+
+export function dumpMemory(dumpId: number, address: string, offset: number, size: number): void {
+    const start = ptr(address).add(offset);
+    const { pageSize } = Process;
+
+    // Read a page at a time, so that only the pages that can't be read are left as zeros.
+    const data = new Uint8Array(size);
+    let unreadable = 0;
+    for (let position = 0; position < size; position += pageSize) {
+        const length = Math.min(pageSize, size - position);
+
+        const page = tryReadByteArray(start.add(position), length);
+        if (page !== null) {
+            data.set(new Uint8Array(page), position);
+        } else {
+            unreadable += length;
+        }
+    }
+
+    const message: MemoryChunkMessage = { type: "memory-chunk", dumpId, offset, size, unreadable };
+    send(message, (unreadable !== size) ? data.buffer : null);
+}
+
+function tryReadByteArray(address: NativePointer, length: number): ArrayBuffer | null {
+    try {
+        return address.readByteArray(length);
+    } catch (e) {
+        return null;
+    }
+}
@@ -0,0 +1,137 @@
+import { TraceMessage, TraceSpec, TracedCall, ValueFormat } from "./interfaces.js";
+
+const maxBatchSize = 1000;
+const batchInterval = 50;
+
+interface TracedFunction {
+    name: string;
+    spec: TraceSpec;
+}
+
+export class Tracer {
+    #listeners: InvocationListener[] = [];
+    #pending: TracedCall[] = [];
+    #flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    public start(specs: TraceSpec[]): string[] {
+        const functions = new Map<string, TracedFunction>();
+
+        for (const spec of specs) {
+            for (const [address, name] of resolve(spec.pattern)) {
+                if (spec.kind === "include") {
+                    functions.set(address.toString(), { name, spec });
+                } else {
+                    functions.delete(address.toString());
+                }
+            }
+        }
+
+        for (const [address, func] of functions) {
+            this.#listeners.push(this.#hook(ptr(address), func));
+        }
+
+        return Array.from(functions.values()).map(f => f.name);
+    }
+
+    public stop(): void {
+        for (const listener of this.#listeners.splice(0)) {
+            listener.detach();
+        }
+        this.#flush();
+    }
+
+    #hook(address: NativePointer, func: TracedFunction): InvocationListener {
+        const { name, spec } = func;
+        const tracer = this;
+        const argFormats = spec.args ?? [];
+
+        return Interceptor.attach(address, {
+            onEnter(args) {
+                this.call = {
+                    function: name,
+                    threadId: this.threadId,
+                    depth: this.depth,
+                    timestamp: Date.now(),
+                    duration: 0,
+                    args: argFormats.map((format, i) => formatValue(args[i], format)),
+                    retval: null,
+                    backtrace: spec.backtrace
+                        ? Thread.backtrace(this.context, Backtracer.ACCURATE).map(a => DebugSymbol.fromAddress(a).toString())
+                        : null,
+                };
+            },
+            onLeave(retval) {
+                const call: TracedCall = this.call;
+                call.duration = Date.now() - call.timestamp;
+                if (spec.retval !== undefined) {
+                    call.retval = formatValue(retval, spec.retval);
+                }
+                tracer.#report(call);
+            }
+        });
+    }
+
+    #report(call: TracedCall): void {
+        const pending = this.#pending;
+        pending.push(call);
+
+        if (pending.length >= maxBatchSize) {
+            this.#flush();
+        } else if (this.#flushTimer === null) {
+            this.#flushTimer = setTimeout(() => this.#flush(), batchInterval);
+        }
+    }
+
+    #flush(): void {
+        if (this.#flushTimer !== null) {
+            clearTimeout(this.#flushTimer);
+            this.#flushTimer = null;
+        }
+
+        const calls = this.#pending.splice(0);
+        if (calls.length !== 0) {
+            const message: TraceMessage = { type: "trace", calls };
+            send(message);
+        }
+    }
+}
+
+function resolve(pattern: string): [NativePointer, string][] {
+    if (/^0x[0-9a-f]+$/i.test(pattern)) {
+        const address = ptr(pattern);
+        return [[address, describeAddress(address)]];
+    }
+
+    if (pattern.includes("!")) {
+        const resolver = new ApiResolver("module");
+        return resolver.enumerateMatches(`exports:${pattern}`).map(m => [m.address, m.name]);
+    }
+
+    return DebugSymbol.findFunctionsMatching(pattern).map(address => [address, describeAddress(address)]);
+}
+
+function describeAddress(address: NativePointer): string {
+    const symbol = DebugSymbol.fromAddress(address);
+    return (symbol.name !== null) ? `${symbol.moduleName}!${symbol.name}` : address.toString();
+}
+
+function formatValue(value: NativePointer, format: ValueFormat): string {
+    try {
+        switch (format) {
+            case "pointer":
+                return value.toString();
+            case "int":
+                return value.toInt32().toString();
+            case "uint":
+                return (value.toInt32() >>> 0).toString();
+            case "bool":
+                return value.isNull() ? "false" : "true";
+            case "string":
+                return JSON.stringify(value.readUtf8String());
+            case "utf16":
+                return JSON.stringify(value.readUtf16String());
+        }
+    } catch (e) {
+        return `${value} (${(e as Error).message})`;
+    }
+}
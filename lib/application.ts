@@ -1,131 +1,681 @@
-import { AgentApi } from "./agent/interfaces.js";
 import {
+    AgentApi,
+    AgentParameters,
+    EventMessage,
+    ExitMessage,
+    MemoryChunkMessage,
+    MemoryScan,
+    ModuleInfo,
+    ModulesLoadedMessage,
+    RangeInfo,
+    ReplyMessage,
+    ScanMatch,
+    TraceMessage,
+    TraceSpec,
+    TracedCall,
+} from "./agent/interfaces.js";
+import {
+    AgentOptions,
+    AgentRuntime,
+    ChildOrigin,
+    ChildPolicy,
     Config,
+    MatchingMode,
+    OperationKind,
+    OperationPolicies,
+    OperationPolicy,
+    ReconnectPolicy,
+    ScriptOptions,
+    Target,
     TargetDevice,
     TargetProcess,
     TargetProcessAllByName,
+    TargetProcessAnyByName,
+    TargetProcessByGating,
     TargetProcessById,
+    TargetProcessMatching,
+    TargetProcessSpawn,
 } from "./config.js";
-import { Operation, AsyncOperation } from "./operation.js";
+import { AgentChannel } from "./channel.js";
+import { agentScriptName, mergeScripts } from "./config-file.js";
+import { ExitMonitor } from "./exit-monitor.js";
+import {
+    Operation,
+    AsyncOperation,
+    OperationCancelledError,
+    OperationTimeoutError,
+} from "./operation.js";
+import { ProcessFilter } from "./process-filter.js";
+import { ProcessNode, ProcessOrigin, ProcessTree } from "./process-tree.js";
+import { RunSummary, StatisticsCollector } from "./statistics.js";
+import { formatSuggestions, suggest } from "./suggest.js";
 
 import { EventEmitter } from "events";
 import * as frida from "frida";
 import {
     Cancellable,
     Child,
+    Crash,
     Device,
     LogLevel,
     Message,
     MessageType,
     Process,
+    Scope,
     Script,
     ScriptRuntime,
     Session,
     SessionDetachReason,
     SpawnAddedHandler,
+    SpawnOptions,
+    Stdio,
 } from "frida";
 import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
 import { promisify } from "util";
 
 const readFile = promisify(fs.readFile);
 
+const defaultAgentSource = fileURLToPath(new URL("./agent.js", import.meta.url));
+
+const minPollInterval = 100;
+const maxPollInterval = 2000;
+
 export class Application {
     #config: Config;
     #delegate: Delegate;
+    #exitMonitor: ExitMonitor;
+    #statistics: StatisticsCollector;
+    #stopReason: StopReason | null = null;
 
     #controllers: DeviceController[] = [];
+    #controllerByDeviceId = new Map<string, DeviceController>();
     #cancellable = new Cancellable();
 
     #scheduler: OperationScheduler;
+    #agentSources = new Map<string, Promise<AgentSource>>();
+    #agentWatchers: AgentWatcher[] = [];
+    #reloadTask: Promise<void> = Promise.resolve();
 
     constructor(config: Config, delegate: Delegate) {
         this.#config = config;
-        this.#delegate = delegate;
+        this.#statistics = new StatisticsCollector(delegate);
+        this.#exitMonitor = new ExitMonitor(config.exit ?? {}, this.#statistics, this.#stop, {
+            listExports: agent => this.#getAgent(agent.scope).listExports(),
+            waitForCompletion: agent => this.#getAgent(agent.scope).call("whenComplete", []),
+        });
+        this.#delegate = this.#exitMonitor;
 
-        this.#scheduler = new OperationScheduler("application", delegate);
+        this.#scheduler = new OperationScheduler("application", this.#delegate, config.operations ?? {},
+            this.#cancellable);
     }
 
     public async dispose(): Promise<void> {
+        if (this.#stopReason === null) {
+            this.#stopReason = { kind: "interrupted", description: "Interrupted", exitStatus: null };
+        }
+        this.#cancellable.cancel();
+
+        for (const watcher of this.#agentWatchers.splice(0)) {
+            watcher.close();
+        }
+
         for (const controller of this.#controllers) {
             await controller.dispose();
         }
-
-        this.#cancellable.cancel();
     }
 
-    public async run(): Promise<void> {
-        const controllerByDeviceId = new Map<string, DeviceController>();
+    /**
+     * Instruments the configured targets and waits until the run ends, either
+     * by all processes being detached from or by an exit condition being met.
+     * Once detached, the reason is reported along with a summary of the run.
+     */
+    public async run(): Promise<StopReason> {
+        let reason: StopReason;
 
+        this.#statistics.start();
+        this.#exitMonitor.start();
         try {
-            console.log(JSON.stringify(this.#config.targets));
             for (const target of this.#config.targets) {
-                const device = await this.#getDevice(target.device);
-                const { id: deviceId } = device;
-
-                let controller = controllerByDeviceId.get(deviceId);
-                if (controller === undefined) {
-                    controller = new DeviceController(device, this.#delegate, this.#scheduler, this.#cancellable);
-                    controllerByDeviceId.set(deviceId, controller);
-                    this.#controllers.push(controller);
+                await this.addTarget(target);
+            }
+
+            let numJoined: number;
+            do {
+                numJoined = this.#controllers.length;
+                await Promise.all(this.#controllers.map(c => c.join()));
+            } while (this.#controllers.length !== numJoined);
+
+            reason = this.#stopReason ?? { kind: "finished", description: "All processes detached", exitStatus: null };
+        } catch (e) {
+            if (this.#stopReason === null) {
+                this.#exitMonitor.stop();
+                await this.dispose();
+                this.#report({ kind: "failed", description: (e as Error).message, exitStatus: null });
+                throw e;
+            }
+            reason = this.#stopReason;
+        }
+
+        this.#exitMonitor.stop();
+        await this.dispose();
+        this.#report(reason);
+
+        return reason;
+    }
+
+    #report(reason: StopReason): void {
+        this.#delegate.onStopped(reason);
+        this.#delegate.onSummary(this.#statistics.summarize(reason));
+    }
+
+    public async addTarget(target: Target): Promise<void> {
+        const agentSpec = await this.#getAgentSpec(target);
+        const device = await this.#getDevice(target.device);
+        const { id: deviceId } = device;
+
+        let controller = this.#controllerByDeviceId.get(deviceId);
+        if (controller === undefined) {
+            controller = new DeviceController(device, target.device, this.#delegate, this.#scheduler, this.#cancellable,
+                this.#config.reconnect ?? {});
+            this.#controllerByDeviceId.set(deviceId, controller);
+            this.#controllers.push(controller);
+        }
+
+        await controller.add(target.processes, agentSpec);
+    }
+
+    public async detach(deviceId: string, pid: number): Promise<void> {
+        const controller = this.#controllerByDeviceId.get(deviceId);
+        if (controller === undefined) {
+            throw new Error(`Not attached to any processes on device "${deviceId}"`);
+        }
+
+        await controller.detach(pid);
+    }
+
+    public async enumerateDevices(): Promise<DeviceInfo[]> {
+        const devices = await frida.enumerateDevices(this.#cancellable);
+        return devices.map(describeDevice);
+    }
+
+    public async enumerateProcesses(targetDevice: TargetDevice, withParameters: boolean = false): Promise<ProcessInfo[]> {
+        const device = await this.#getDevice(targetDevice);
+
+        const processes = await this.#scheduler.perform("Enumerating processes", (cancellable): Promise<Process[]> => {
+            return device.enumerateProcesses({ scope: withParameters ? Scope.Full : Scope.Minimal }, cancellable);
+        }, "resolve");
+
+        return processes
+            .map(({ pid, name, parameters }) => ({ pid, name, parameters }))
+            .sort((a, b) => a.name.localeCompare(b.name) || (a.pid - b.pid));
+    }
+
+    public async enumerateApplications(targetDevice: TargetDevice, withParameters: boolean = false): Promise<ApplicationInfo[]> {
+        const device = await this.#getDevice(targetDevice);
+
+        const applications = await this.#scheduler.perform("Enumerating applications", (cancellable): Promise<frida.Application[]> => {
+            return device.enumerateApplications({ scope: withParameters ? Scope.Full : Scope.Minimal }, cancellable);
+        }, "resolve");
+
+        return applications
+            .map(({ identifier, name, pid, parameters }) => ({ identifier, name, pid: (pid !== 0) ? pid : null, parameters }))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    public listControllers(): ControllerInfo[] {
+        return this.#controllers.map(controller => {
+            return {
+                device: describeDevice(controller.device),
+                agents: controller.listAgents().map(agent => agent.identity),
+            };
+        });
+    }
+
+    public getProcessTree(): DeviceProcessTree[] {
+        return this.#controllers.map(controller => {
+            return {
+                device: describeDevice(controller.device),
+                processes: controller.getProcessTree(),
+            };
+        });
+    }
+
+    public listAgents(): AgentIdentity[] {
+        return this.#controllers.flatMap(c => c.listAgents()).map(agent => agent.identity);
+    }
+
+    /**
+     * Lists the RPC exports of the script going by `scope`, which is that of
+     * the process for the agent itself.
+     */
+    public listAgentExports(scope: string): Promise<string[]> {
+        const [agent, script] = this.#getScript(scope);
+        return agent.listExports(script);
+    }
+
+    /**
+     * Calls an RPC export of the script going by `scope`, first checking that
+     * it exists if the script lists its exports. Those of scripts that don't
+     * can't be told apart from missing ones until called.
+     */
+    public async callAgent(scope: string, method: string, args: any[]): Promise<any> {
+        const [agent, script] = this.#getScript(scope);
+
+        const names = await agent.listExports(script);
+        if (names.length !== 0 && !names.includes(method)) {
+            throw new Error(`No export named "${method}" in ${scope}.` + formatSuggestions(suggest(method, names)));
+        }
+
+        return agent.call(method, args, script);
+    }
+
+    public listScripts(scope: string): ScriptInfo[] {
+        return this.#getAgent(scope).listScripts();
+    }
+
+    /**
+     * Returns the channel for typed events from and commands to the script
+     * going by `scope`, which stays usable across reloads of the script.
+     */
+    public getChannel(scope: string): AgentChannel {
+        const [agent, script] = this.#getScript(scope);
+        return agent.getChannel(script);
+    }
+
+    public loadScript(scope: string, name: string): Promise<void> {
+        return this.#getAgent(scope).loadScript(name);
+    }
+
+    public unloadScript(scope: string, name: string): Promise<void> {
+        return this.#getAgent(scope).unloadScript(name);
+    }
+
+    public reloadScript(scope: string, name: string): Promise<void> {
+        return this.#getAgent(scope).reloadScript(name);
+    }
+
+    public enumerateRanges(scope: string, protection: string): Promise<RangeInfo[]> {
+        return this.#getAgent(scope).call("enumerateRanges", [protection]);
+    }
+
+    public scanMemory(scope: string, scan: MemoryScan): Promise<ScanMatch[]> {
+        const agent = this.#getAgent(scope);
+        return agent.scheduler.perform(`Scanning ${scan.protection} memory for ${scan.pattern}`, (): Promise<ScanMatch[]> => {
+            return agent.call("scanMemory", [scan]);
+        }, "scan-memory");
+    }
+
+    /**
+     * Dumps the memory ranges with the given protection to files named after
+     * their base address, in a directory per device and PID below `directory`.
+     */
+    public dumpMemory(scope: string, protection: string, directory: string): Promise<MemoryDump[]> {
+        const agent = this.#getAgent(scope);
+        return agent.dumpMemory(protection, path.join(deviceDirectory(directory, agent.device), String(agent.pid)));
+    }
+
+    #stop = (reason: StopReason): void => {
+        if (this.#stopReason !== null) {
+            return;
+        }
+
+        this.#stopReason = reason;
+        this.dispose().catch(e => {
+            this.#delegate.onConsoleMessage("application", LogLevel.Error, (e as Error).message);
+        });
+    };
+
+    #getAgent(scope: string): Agent {
+        for (const controller of this.#controllers) {
+            const agent = controller.listAgents().find(a => a.scope === scope);
+            if (agent !== undefined) {
+                return agent;
+            }
+        }
+
+        throw new Error(`No agent attached to ${scope}`);
+    }
+
+    #getScript(scope: string): [Agent, string] {
+        for (const controller of this.#controllers) {
+            for (const agent of controller.listAgents()) {
+                const script = agent.findScript(scope);
+                if (script !== null) {
+                    return [agent, script];
                 }
+            }
+        }
+
+        throw new Error(`No agent attached to ${scope}`);
+    }
+
+    async #getAgentSpec(target: Target): Promise<AgentSpec> {
+        const options: AgentOptions = { ...this.#config.agent, ...target.agent };
+        const scripts: ScriptOptions[] = [
+            { name: agentScriptName, source: options.source ?? defaultAgentSource, runtime: options.runtime,
+                parameters: options.parameters },
+            ...mergeScripts(this.#config.scripts ?? [], target.scripts ?? []),
+        ];
+
+        return {
+            scripts: await Promise.all(scripts.map(async ({ name, source, runtime, parameters }) => ({
+                name,
+                source: await this.#loadAgentSource(source),
+                runtime: parseAgentRuntime(runtime ?? "qjs"),
+                parameters: parameters ?? {},
+            }))),
+            trace: options.trace ?? [],
+            watchModules: options.watchModules ?? false,
+            watchExit: this.#config.exit?.processExit !== undefined,
+            children: target.children ?? {},
+            childFilter: makeChildFilter(target.children ?? {}),
+        };
+    }
+
+    async #loadAgentSource(sourcePath: string): Promise<AgentSource> {
+        sourcePath = path.resolve(sourcePath);
 
-                await controller.add(target.processes);
+        let source = this.#agentSources.get(sourcePath);
+        if (source === undefined) {
+            source = this.#scheduler.perform(`Loading agent "${sourcePath}"`, async (): Promise<AgentSource> => {
+                return { path: sourcePath, code: await loadAgentCode(sourcePath) };
+            }, "load-agent");
+            this.#agentSources.set(sourcePath, source);
+
+            if (this.#config.watchAgent) {
+                this.#watchAgentSource(await source);
             }
+        }
 
-            await Promise.all(this.#controllers.map(c => c.join()));
-        } finally {
-            this.dispose();
+        return source;
+    }
+
+    #watchAgentSource(source: AgentSource): void {
+        const onChange = (code: string | null) => {
+            this.#reloadTask = this.#reloadTask.then(() => this.#reloadAgentSource(source, code));
+        };
+
+        const watcher = source.path.endsWith(".ts")
+            ? new CompilerWatcher(source.path, onChange, this.#cancellable)
+            : new FileWatcher(source.path, onChange);
+        this.#agentWatchers.push(watcher);
+    }
+
+    async #reloadAgentSource(source: AgentSource, code: string | null): Promise<void> {
+        if (code === source.code) {
+            return;
+        }
+
+        try {
+            const newCode = await this.#scheduler.perform(`Reloading agent "${source.path}"`, async (): Promise<string> => {
+                return code ?? await readFile(source.path, "utf-8");
+            }, "load-agent");
+            if (newCode === source.code) {
+                return;
+            }
+            source.code = newCode;
+        } catch (e) {
+            this.#delegate.onConsoleMessage("application", LogLevel.Error, (e as Error).message);
+            return;
         }
+
+        await Promise.all(this.#controllers.map(c => c.reloadAgents(source)));
     }
 
-    async #getDevice(targetDevice: TargetDevice): Promise<Device> {
-        return this.#scheduler.perform("Getting device", async (): Promise<Device> => {
-            let device: Device;
+    #getDevice(targetDevice: TargetDevice): Promise<Device> {
+        return this.#scheduler.perform("Getting device", (cancellable): Promise<Device> => {
+            return getDevice(targetDevice, cancellable);
+        }, "get-device");
+    }
+}
 
-            switch (targetDevice.kind) {
-                case "local":
-                    device = await frida.getLocalDevice(this.#cancellable);
-                    break;
-                case "usb":
-                    device = await frida.getUsbDevice(undefined, this.#cancellable);
-                    break;
-                case "remote":
-                    device = await frida.getRemoteDevice(this.#cancellable);
-                    break;
-                case "by-host":
-                    device = await frida.getDeviceManager().addRemoteDevice(targetDevice.host, undefined, this.#cancellable);
-                    break;
-                case "by-id":
-                    device = await frida.getDevice(targetDevice.id, undefined, this.#cancellable);
-                    break;
-                default:
-                    throw new Error("Invalid target device");
+export interface DeviceInfo {
+    id: string;
+    name: string;
+    type: string;
+}
+
+export interface ProcessInfo {
+    pid: number;
+    name: string;
+    parameters: { [name: string]: any };
+}
+
+export interface ApplicationInfo {
+    identifier: string;
+    name: string;
+    pid: number | null;
+    parameters: { [name: string]: any };
+}
+
+export interface DeviceProcessTree {
+    device: DeviceInfo;
+    processes: ProcessNode[];
+}
+
+export interface MemoryDump {
+    base: string;
+    size: number;
+    protection: string;
+    path: string;
+
+    /**
+     * Number of bytes that couldn't be read, left as zeros in the file.
+     */
+    unreadable: number;
+}
+
+export interface ControllerInfo {
+    device: DeviceInfo;
+    agents: AgentIdentity[];
+}
+
+/**
+ * Names the directory below `root` where data from processes on `device` is
+ * kept, with characters unfit for a file name replaced.
+ */
+export function deviceDirectory(root: string, device: string): string {
+    return path.join(root, device.replace(/[^\w-]+/g, "_"));
+}
+
+function describeDevice(device: Device): DeviceInfo {
+    const { id, name, type } = device;
+    return { id, name, type };
+}
+
+export interface ScriptInfo {
+    name: string;
+    scope: string;
+
+    /**
+     * Path of the script's source code.
+     */
+    source: string;
+    loaded: boolean;
+}
+
+interface AgentSpec {
+    /**
+     * The agent's own script, followed by any others in load order.
+     */
+    scripts: ScriptSpec[];
+    trace: TraceSpec[];
+    watchModules: boolean;
+
+    /**
+     * Whether to have the agent report the exit status of the process, as
+     * hooking its exit is only worth it when a run ends with it.
+     */
+    watchExit: boolean;
+    children: ChildPolicy;
+
+    /**
+     * Compiled from the matchers of `children`, if it has any.
+     */
+    childFilter: ProcessFilter | null;
+}
+
+interface ScriptSpec {
+    name: string;
+    source: AgentSource;
+    runtime: ScriptRuntime;
+    parameters: AgentParameters;
+}
+
+interface AgentSource {
+    path: string;
+    code: string;
+}
+
+interface AgentWatcher {
+    close(): void;
+}
+
+class FileWatcher implements AgentWatcher {
+    #watcher: fs.FSWatcher;
+    #timer: NodeJS.Timeout | null = null;
+
+    constructor(filePath: string, onChange: (code: string | null) => void) {
+        const fileName = path.basename(filePath);
+
+        // Watch the directory, as bundlers may replace the file rather than write to it.
+        this.#watcher = fs.watch(path.dirname(filePath), (event, changedFileName) => {
+            if (changedFileName !== fileName) {
+                return;
             }
 
-            return device;
+            if (this.#timer !== null) {
+                clearTimeout(this.#timer);
+            }
+            this.#timer = setTimeout(() => {
+                this.#timer = null;
+                onChange(null);
+            }, 100);
         });
     }
+
+    close(): void {
+        if (this.#timer !== null) {
+            clearTimeout(this.#timer);
+            this.#timer = null;
+        }
+        this.#watcher.close();
+    }
+}
+
+class CompilerWatcher implements AgentWatcher {
+    #compiler: frida.Compiler;
+    #onOutput: (bundle: string) => void;
+    #cancellable = new Cancellable();
+    #parentCancellable: Cancellable;
+    #onCancelled = () => this.close();
+
+    constructor(entrypoint: string, onChange: (code: string | null) => void, cancellable: Cancellable) {
+        this.#compiler = new frida.Compiler(frida.getDeviceManager());
+        this.#onOutput = bundle => onChange(bundle);
+        this.#compiler.output.connect(this.#onOutput);
+
+        this.#parentCancellable = cancellable;
+        cancellable.cancelled.connect(this.#onCancelled);
+
+        this.#compiler.watch(entrypoint, undefined, this.#cancellable)
+            .catch(() => {});
+    }
+
+    close(): void {
+        if (this.#cancellable.isCancelled) {
+            return;
+        }
+
+        this.#parentCancellable.cancelled.disconnect(this.#onCancelled);
+        this.#compiler.output.disconnect(this.#onOutput);
+        this.#cancellable.cancel();
+    }
+}
+
+async function loadAgentCode(source: string): Promise<string> {
+    if (source.endsWith(".ts")) {
+        const compiler = new frida.Compiler(frida.getDeviceManager());
+        return compiler.build(source);
+    }
+
+    return readFile(source, "utf-8");
+}
+
+async function getDevice(targetDevice: TargetDevice, cancellable: Cancellable): Promise<Device> {
+    switch (targetDevice.kind) {
+        case "local":
+            return await frida.getLocalDevice(cancellable);
+        case "usb":
+            return await frida.getUsbDevice(undefined, cancellable);
+        case "remote":
+            return await frida.getRemoteDevice(cancellable);
+        case "by-host":
+            return await frida.getDeviceManager().addRemoteDevice(targetDevice.host, undefined, cancellable);
+        case "by-id": {
+            const { id } = targetDevice;
+            try {
+                return await frida.getDevice(id, undefined, cancellable);
+            } catch (e) {
+                if (cancellable.isCancelled) {
+                    throw e;
+                }
+                const devices = await frida.enumerateDevices(cancellable);
+                const byName = devices.filter(d => d.name.toLowerCase() === id.toLowerCase()).map(d => d.id);
+                const suggestions = (byName.length !== 0) ? byName : suggest(id, devices.map(d => d.id));
+                throw new Error(`Unable to find device with ID "${id}".${formatSuggestions(suggestions)}`);
+            }
+        }
+        default:
+            throw new Error("Invalid target device");
+    }
+}
+
+function parseAgentRuntime(runtime: AgentRuntime): ScriptRuntime {
+    switch (runtime) {
+        case "qjs":
+            return ScriptRuntime.QJS;
+        case "v8":
+            return ScriptRuntime.V8;
+        default:
+            return ScriptRuntime.Default;
+    }
 }
 
 class DeviceController {
+    #targetDevice: TargetDevice;
     #delegate: Delegate;
     #scheduler: OperationScheduler;
     #cancellable: Cancellable;
+    #reconnectPolicy: ReconnectPolicy;
 
     #done: Promise<void>;
     #onSuccess: () => void = () => {};
     #onFailure: (error: Error) => void = () => {};
     #enlistTask: Promise<void> | null = null;
+    #enlistCancellable: Cancellable | null = null;
+    #enlistedTargets: EnlistedFilter[] = [];
+    #spawnGating: Promise<void> | null = null;
+    #spawnWaiters: SpawnWaiter[] = [];
+    #reconnectTask: Promise<void> | null = null;
+
+    #targets: EnlistedTarget[] = [];
+    #lostAgents = new Map<number, Agent>();
 
     #processes: Map<number, Process> = new Map<number, Process>()
     #agents: Map<number, Agent> = new Map<number, Agent>();
+    #tree = new ProcessTree();
+    #defaultAgentSpec: AgentSpec | null = null;
 
-    #onSpawnGatingDisabled: (error: Error) => void = () => {};
-
-    constructor(public device: Device, delegate: Delegate, scheduler: OperationScheduler, cancellable: Cancellable) {
+    constructor(public device: Device, targetDevice: TargetDevice, delegate: Delegate, scheduler: OperationScheduler,
+            cancellable: Cancellable, reconnectPolicy: ReconnectPolicy) {
+        this.#targetDevice = targetDevice;
         this.#delegate = delegate;
         this.#scheduler = scheduler;
         this.#cancellable = cancellable;
+        this.#reconnectPolicy = reconnectPolicy;
 
         this.#done = new Promise((resolve, reject) => {
             this.#onSuccess = resolve;
@@ -133,44 +683,54 @@ class DeviceController {
         });
 
         device.childAdded.connect(this.#onChildAdded);
+        device.output.connect(this.#onOutput);
     }
 
     async dispose() {
         await Promise.all(Array.from(this.#agents.values()).map(a => a.dispose()));
 
         this.device.childAdded.disconnect(this.#onChildAdded);
+        this.device.output.disconnect(this.#onOutput);
         await this.#disableSpawnGating();
     }
 
-    async add(targetProcesses: TargetProcess[]) {
+    async add(targetProcesses: TargetProcess[], agentSpec: AgentSpec) {
         const { device } = this;
         const processes = this.#processes;
 
-        const allByNameTargets: TargetProcessAllByName[] = [];
+        if (this.#defaultAgentSpec === null) {
+            this.#defaultAgentSpec = agentSpec;
+        }
 
         for (const targetProcess of targetProcesses) {
+            this.#targets.push({ targetProcess, agentSpec });
+
+            let numMatches = 0;
             for (const process of await this.#getProcesses(targetProcess)) {
                 const { pid } = process;
                 if (!processes.has(pid)) {
                     processes.set(pid, process);
 
-                    const agent = await this.#instrument(process.pid, process.name);
+                    const agent = await this.#instrument(process.pid, process.name, agentSpec);
+                    numMatches++;
 
-                    if (targetProcess.kind === "spawn" || targetProcess.kind === "by-gating") {
-                        await agent.scheduler.perform("Resuming", (): Promise<void> => {
-                            return device.resume(process.pid);
-                        });
+                    if (isSuspended(targetProcess)) {
+                        await agent.scheduler.perform("Resuming", (cancellable): Promise<void> => {
+                            return device.resume(process.pid, cancellable);
+                        }, "resume");
                     }
 
-                    if (targetProcess.kind === "all-by-name") {
-                        allByNameTargets.push(targetProcess);
-                    }
                 }
             }
-        }
 
-        if (allByNameTargets.length !== 0) {
-            this.#enlistTask = this.#enlistNewProcesses(allByNameTargets);
+            const filter = getWatchFilter(targetProcess);
+            const remaining = getMaxMatches(targetProcess) ?? Infinity;
+            if (filter !== null && numMatches < remaining) {
+                this.#enlistedTargets.push({ filter, agentSpec, remaining: remaining - numMatches });
+                if (this.#enlistTask === null) {
+                    this.#startEnlisting();
+                }
+            }
         }
     }
 
@@ -178,16 +738,64 @@ class DeviceController {
         return this.#done;
     }
 
-    async #instrument(pid: number, name: string): Promise<Agent> {
+    getProcessTree(): ProcessNode[] {
+        return this.#tree.snapshot();
+    }
+
+    listAgents(): Agent[] {
+        return Array.from(this.#agents.values());
+    }
+
+    async detach(pid: number): Promise<void> {
+        const agent = this.#agents.get(pid);
+        if (agent === undefined) {
+            throw new Error(`Not attached to PID ${pid} on ${this.device.name}`);
+        }
+
+        await agent.dispose();
+    }
+
+    async reloadAgents(source: AgentSource): Promise<void> {
+        const agents = Array.from(this.#agents.values())
+            .filter(agent => agent.spec.scripts.some(script => script.source === source));
+
+        await Promise.all(agents.map(async agent => {
+            try {
+                await agent.reloadScripts(source);
+            } catch (e) {
+                this.#delegate.onConsoleMessage(agent.scope, LogLevel.Error,
+                    `Failed to reload agent, session kept alive: ${(e as Error).message}`);
+            }
+        }));
+    }
+
+    async #instrument(pid: number, name: string, agentSpec: AgentSpec,
+            parentage: Parentage = rootParentage): Promise<Agent> {
         const { device } = this;
+        const { lineage } = parentage;
 
-        const agent = await Agent.inject(device, pid, name, this.#delegate);
+        const agent = await Agent.inject(device, pid, name, agentSpec, parentage, this.#delegate, this.#scheduler);
         this.#agents.set(pid, agent);
+        this.#tree.add(agent.identity);
 
-        this.#delegate.onConsoleMessage("application", LogLevel.Info, `Attached PID: ${name}:${pid}@${device.name}`);
+        const ancestry = (lineage.length !== 0)
+            ? `, child of PID ${lineage[lineage.length - 1]} at depth ${lineage.length}`
+            : "";
+        this.#delegate.onConsoleMessage("application", LogLevel.Info, `Attached PID: ${name}:${pid}@${device.name}${ancestry}`);
+        this.#delegate.onAttached(agent.identity);
 
         agent.events.once("uninjected", (reason: SessionDetachReason) => {
-            this.#agents.delete(pid);
+            if (this.#agents.get(pid) === agent) {
+                this.#agents.delete(pid);
+            }
+            this.#tree.remove(pid, agent.scope);
+
+            if (reason === SessionDetachReason.ConnectionTerminated || reason === SessionDetachReason.DeviceLost) {
+                this.#processes.delete(pid);
+                this.#lostAgents.set(pid, agent);
+                this.#onConnectionLost(reason);
+                return;
+            }
 
             const name = this.#processes.get(pid);
             if (name !== undefined) {
@@ -207,125 +815,529 @@ class DeviceController {
                                 `All processes lost on host: ${device.name}`);
                         }
 
-                        break;
-                    case SessionDetachReason.ConnectionTerminated:
-                    case SessionDetachReason.DeviceLost:
-                        const message = reason[0].toUpperCase() + reason.substr(1).replace(/-/g, " ");
-                        this.#onFailure(new Error(message));
                         break;
                     default:
                 }
             }
 
-            if (this.#enlistTask === null && this.#agents.size === 0) {
-                this.#onSuccess();
-            }
+            this.#checkDone();
         });
 
         return agent;
     }
 
-    async #disableSpawnGating(): Promise<void> {
-        const { device } = this;
+    #checkDone(): void {
+        if (this.#enlistTask === null && this.#reconnectTask === null && this.#agents.size === 0) {
+            this.#onSuccess();
+        }
+    }
 
-        this.#onSpawnGatingDisabled(new Error("Spawn gating disabled"));
+    #onConnectionLost(reason: SessionDetachReason): void {
+        if (this.#reconnectTask !== null) {
+            return;
+        }
 
-        try {
-            await device.disableSpawnGating();
-            const pendingSpawns = await device.enumeratePendingSpawn();
-            for (const pending of pendingSpawns) {
-                await device.resume(pending.pid);
-            }
-        } catch (e) {
+        const message = reason[0].toUpperCase() + reason.substr(1).replace(/-/g, " ");
+
+        if ((this.#reconnectPolicy.attempts ?? 0) === 0) {
+            this.#onFailure(new Error(message));
+            return;
         }
+
+        this.#delegate.onConsoleMessage("application", LogLevel.Warning, `${message}: ${this.device.name}, reconnecting`);
+
+        this.#reconnectTask = this.#reconnect(message)
+            .then(
+                () => {
+                    this.#reconnectTask = null;
+                    this.#checkDone();
+                },
+                error => {
+                    this.#reconnectTask = null;
+                    if (error instanceof OperationCancelledError) {
+                        this.#onSuccess();
+                    } else {
+                        this.#onFailure(error);
+                    }
+                });
     }
 
-    #onChildAdded = async (child: Child): Promise<void> => {
-        const { device } = this;
+    async #reconnect(reason: string): Promise<void> {
+        const { attempts = 0, backoff = 2 } = this.#reconnectPolicy;
+        let delay = this.#reconnectPolicy.delay ?? 1000;
+
+        for (let attempt = 1; ; attempt++) {
+            this.#delegate.onReconnecting(this.device.name, attempt, attempts);
+
+            await sleep(delay, this.#cancellable);
 
-        try {
             try {
-                let name: string | null = null;
+                const device = await this.#scheduler.perform("Getting device", (cancellable): Promise<Device> => {
+                    return getDevice(this.#targetDevice, cancellable);
+                }, "get-device");
+                this.#replaceDevice(device);
 
-                const { path } = child;
-                if (path !== null) {
-                    name = path;
-                }
+                await this.#reinstrument();
 
-                const { identifier } = child;
-                if (identifier !== null) {
-                    name = identifier;
+                if (this.#enlistedTargets.length !== 0) {
+                    this.#startEnlisting();
                 }
 
-                if (name === null && child.origin === "fork") {
-                    const parent = this.#agents.get(child.parentPid);
-                    if (parent !== undefined) {
-                        name = parent.name;
-                    }
+                this.#lostAgents.clear();
+                this.#delegate.onReconnected(device.name, attempt);
+                return;
+            } catch (e) {
+                if (e instanceof OperationCancelledError) {
+                    throw e;
                 }
-
-                if (name === null) {
-                    name = "<unknown>";
+                if (attempt >= attempts) {
+                    throw new Error(`${reason}, giving up after ${attempts} reconnect attempts: ${(e as Error).message}`);
                 }
-
-                name += ` from ${child.origin}`;
-
-                const agent = await this.#instrument(child.pid, name);
-
-                await agent.scheduler.perform("Resuming", (): Promise<void> => {
-                    return device.resume(child.pid);
-                });
-            } finally {
+                delay *= backoff;
             }
-        } catch (error) {
-            console.error(`Oops: ${(error as Error).stack}`);
+        }
+    }
 
-            try {
-                await device.resume(child.pid);
-            } catch (error) {
-            }
+    #replaceDevice(device: Device): void {
+        const previous = this.device;
+        if (device === previous) {
+            return;
         }
-    };
 
-    async #findNamedProcesses(targetProcessName: string): Promise<Process[]> {
-        const processes = await this.device.enumerateProcesses(undefined, this.#cancellable);
-        const untraced = processes.filter(process => !this.#agents.has(process.pid));
-        return untraced.filter(process => process.name === targetProcessName);
+        previous.childAdded.disconnect(this.#onChildAdded);
+        previous.output.disconnect(this.#onOutput);
+        if (this.#spawnGating !== null) {
+            previous.spawnAdded.disconnect(this.#onSpawnAdded);
+            this.#spawnGating = null;
+        }
+
+        this.device = device;
+        device.childAdded.connect(this.#onChildAdded);
+        device.output.connect(this.#onOutput);
     }
 
-    async #findNumberedProcesses(targetProcess: TargetProcessById): Promise<Process[]> {
-        const processes = await this.device.enumerateProcesses({}, this.#cancellable);
-        const processesById = new Map<number, Process>(processes.map(p => [p.pid, p]));
+    async #reinstrument(): Promise<void> {
+        const { device } = this;
 
-        const notFound = targetProcess.ids.filter(pid => !processesById.has(pid));
-        if (notFound.length !== 0) {
-            throw new Error(`Failed to find PIDs: ${notFound.join(', ')}`);
+        const processes = await this.#scheduler.perform("Resolving surviving processes", (cancellable): Promise<Process[]> => {
+            return device.enumerateProcesses(undefined, cancellable);
+        }, "resolve");
+        const processByPid = new Map<number, Process>(processes.map(p => [p.pid, p]));
+
+        for (const lostAgent of this.#lostAgents.values()) {
+            const { pid } = lostAgent;
+            const process = processByPid.get(pid);
+            if (process === undefined || this.#agents.has(pid)) {
+                continue;
+            }
+
+            this.#processes.set(pid, process);
+            await this.#instrument(pid, lostAgent.name, lostAgent.spec, lostAgent.identity);
         }
 
-        return targetProcess.ids.map(pid => processesById.get(pid)!);
+        for (const { targetProcess, agentSpec } of this.#targets) {
+            let filter: ProcessFilter;
+            switch (targetProcess.kind) {
+                case "by-name":
+                case "any-by-name":
+                    filter = ProcessFilter.forName(targetProcess.name);
+                    if (Array.from(this.#processes.values()).some(p => filter.matches(p))) {
+                        continue;
+                    }
+                    break;
+                case "all-by-name":
+                    filter = ProcessFilter.forName(targetProcess.name);
+                    break;
+                case "matching":
+                    filter = ProcessFilter.forTarget(targetProcess);
+                    if (targetProcess.mode === "gating") {
+                        continue;
+                    }
+                    if (targetProcess.mode === "any" && Array.from(this.#processes.values()).some(p => filter.matches(p))) {
+                        continue;
+                    }
+                    break;
+                default:
+                    continue;
+            }
+
+            let matches: Process[];
+            try {
+                matches = await this.#getProcesses(targetProcess);
+            } catch (e) {
+                this.#delegate.onConsoleMessage(filter.description, LogLevel.Warning, (e as Error).message);
+                continue;
+            }
+
+            for (const process of matches) {
+                if (!this.#processes.has(process.pid)) {
+                    this.#processes.set(process.pid, process);
+                    await this.#instrument(process.pid, process.name, agentSpec);
+                }
+            }
+        }
     }
 
-    async #enlistNewProcesses(targets: TargetProcessAllByName[]): Promise<void> {
-        while (!this.#cancellable.isCancelled) {
-            for (const target of targets) {
-                try {
-                    const processes = await this.#findNamedProcesses(target.name);
-                    for (let process of processes) {
-                        if (!this.#processes.has(process.pid)) {
-                            this.#processes.set(process.pid, process);
+    #startEnlisting(): void {
+        this.#stopEnlisting();
 
-                            await this.#instrument(process.pid, process.name);
-                        }
+        if (this.#cancellable.isCancelled) {
+            return;
+        }
+
+        const cancellable = new Cancellable();
+        const onCancelled = () => cancellable.cancel();
+        this.#cancellable.cancelled.connect(onCancelled);
+
+        const task: Promise<void> = this.#enlistNewProcesses(cancellable)
+            .catch(e => {
+                if (!cancellable.isCancelled) {
+                    this.#delegate.onConsoleMessage("application", LogLevel.Error, (e as Error).message);
+                }
+            })
+            .finally(() => {
+                this.#cancellable.cancelled.disconnect(onCancelled);
+                if (this.#enlistTask === task) {
+                    this.#enlistTask = null;
+                    this.#enlistCancellable = null;
+                    this.#checkDone();
+                }
+            });
+        this.#enlistTask = task;
+        this.#enlistCancellable = cancellable;
+    }
+
+    #stopEnlisting(): void {
+        this.#enlistCancellable?.cancel();
+    }
+
+    /**
+     * Attaches to new processes matching enlisted targets as they appear. Spawn
+     * gating catches them before they get to run, and children of attached
+     * processes are already caught through child gating. Devices without spawn
+     * gating are polled instead, more often while new processes keep turning up.
+     */
+    async #enlistNewProcesses(cancellable: Cancellable): Promise<void> {
+        try {
+            await this.#enableSpawnGating();
+        } catch (e) {
+            if (cancellable.isCancelled) {
+                return;
+            }
+            this.#delegate.onConsoleMessage("application", LogLevel.Warning,
+                `Spawn gating unavailable on ${this.device.name}, polling instead: ${(e as Error).message}`);
+            await this.#pollNewProcesses(cancellable);
+            return;
+        }
+
+        await this.#enlistRunningProcesses(cancellable);
+
+        await new Promise<void>(resolve => {
+            if (cancellable.isCancelled) {
+                resolve();
+                return;
+            }
+            cancellable.cancelled.connect(() => resolve());
+        });
+    }
+
+    async #pollNewProcesses(cancellable: Cancellable): Promise<void> {
+        let interval = minPollInterval;
+
+        while (!cancellable.isCancelled) {
+            let numEnlisted = 0;
+            try {
+                numEnlisted = await this.#enlistRunningProcesses(cancellable);
+            } catch (e) {
+                if (cancellable.isCancelled) {
+                    return;
+                }
+                this.#delegate.onConsoleMessage("application", LogLevel.Warning, (e as Error).message);
+            }
+
+            interval = (numEnlisted !== 0) ? minPollInterval : Math.min(interval * 2, maxPollInterval);
+
+            try {
+                await sleep(interval, cancellable);
+            } catch (e) {
+                return;
+            }
+        }
+    }
+
+    async #enlistRunningProcesses(cancellable: Cancellable): Promise<number> {
+        const targets = this.#enlistedTargets;
+        const processes = await this.device.enumerateProcesses({ scope: widestScope(targets.map(t => t.filter)) },
+            cancellable);
+
+        let numEnlisted = 0;
+        for (const process of processes) {
+            const { pid } = process;
+            if (this.#processes.has(pid)) {
+                continue;
+            }
+
+            const target = targets.find(t => t.filter.matches(process));
+            if (target === undefined) {
+                continue;
+            }
+
+            this.#processes.set(pid, process);
+            this.#countMatch(target);
+            try {
+                await this.#instrument(pid, process.name, target.agentSpec);
+                numEnlisted++;
+            } catch (e) {
+                this.#delegate.onConsoleMessage(process.name, LogLevel.Warning, (e as Error).message);
+            }
+        }
+
+        return numEnlisted;
+    }
+
+    /**
+     * Stops watching for a target once it has matched as many processes as it
+     * asked for, and for any at all once no target is left, letting the run
+     * end when the processes attached to are gone.
+     */
+    #countMatch(target: EnlistedFilter): void {
+        target.remaining--;
+        if (target.remaining > 0) {
+            return;
+        }
+
+        const targets = this.#enlistedTargets;
+        const index = targets.indexOf(target);
+        if (index !== -1) {
+            targets.splice(index, 1);
+        }
+        if (targets.length === 0) {
+            this.#stopEnlisting();
+        }
+    }
+
+    #enableSpawnGating(): Promise<void> {
+        if (this.#spawnGating === null) {
+            const { device } = this;
+
+            device.spawnAdded.connect(this.#onSpawnAdded);
+            const spawnGating: Promise<void> = device.enableSpawnGating(this.#cancellable)
+                .catch(error => {
+                    device.spawnAdded.disconnect(this.#onSpawnAdded);
+                    if (this.#spawnGating === spawnGating) {
+                        this.#spawnGating = null;
                     }
-                } catch (e) {
-                    this.#delegate.onConsoleMessage(target.name, LogLevel.Warning, (e as Error).message);
+                    throw error;
+                });
+            this.#spawnGating = spawnGating;
+        }
+
+        return this.#spawnGating;
+    }
+
+    async #disableSpawnGating(): Promise<void> {
+        const { device } = this;
+
+        this.#stopEnlisting();
+
+        for (const waiter of this.#spawnWaiters.slice()) {
+            waiter.reject(new Error("Spawn gating disabled"));
+        }
+
+        if (this.#spawnGating === null) {
+            return;
+        }
+        this.#spawnGating = null;
+
+        device.spawnAdded.disconnect(this.#onSpawnAdded);
+
+        try {
+            await device.disableSpawnGating();
+            const pendingSpawns = await device.enumeratePendingSpawn();
+            for (const pending of pendingSpawns) {
+                await device.resume(pending.pid);
+            }
+        } catch (e) {
+        }
+    }
+
+    #waitForSpawn(filter: ProcessFilter, cancellable: Cancellable): Promise<Process> {
+        return new Promise((resolve, reject) => {
+            const waiters = this.#spawnWaiters;
+
+            const waiter: SpawnWaiter = {
+                filter,
+                resolve: process => {
+                    finish();
+                    resolve(process);
+                },
+                reject: error => {
+                    finish();
+                    reject(error);
+                },
+            };
+            const onCancelled = () => waiter.reject(new OperationCancelledError());
+
+            waiters.push(waiter);
+            cancellable.cancelled.connect(onCancelled);
+
+            this.#enableSpawnGating()
+                .catch(waiter.reject);
+
+            function finish() {
+                const index = waiters.indexOf(waiter);
+                if (index !== -1) {
+                    waiters.splice(index, 1);
                 }
+                cancellable.cancelled.disconnect(onCancelled);
             }
+        });
+    }
 
-            await new Promise(resolve => {
-                setTimeout(resolve, 500);
-            });
+    #onSpawnAdded: SpawnAddedHandler = async (spawn): Promise<void> => {
+        const { device } = this;
+        const { identifier, pid } = spawn;
+
+        try {
+            const waiters = this.#spawnWaiters;
+            const targets = this.#enlistedTargets;
+
+            const scope = widestScope([...waiters, ...targets].map(w => w.filter));
+            const [process] = await device.enumerateProcesses({ pids: [pid], scope }, this.#cancellable);
+            if (process !== undefined) {
+                const waiter = waiters.find(w => w.filter.matches(process, identifier));
+                if (waiter !== undefined) {
+                    waiter.resolve(process);
+                    return;
+                }
+
+                const target = targets.find(t => t.filter.matches(process, identifier));
+                if (target !== undefined && !this.#processes.has(pid)) {
+                    this.#processes.set(pid, process);
+                    this.#countMatch(target);
+
+                    const agent = await this.#instrument(pid, process.name, target.agentSpec);
+
+                    await agent.scheduler.perform("Resuming", (cancellable): Promise<void> => {
+                        return device.resume(pid, cancellable);
+                    }, "resume");
+                    return;
+                }
+            }
+        } catch (e) {
+            this.#delegate.onConsoleMessage("application", LogLevel.Warning, (e as Error).message);
+        }
+
+        try {
+            await device.resume(pid);
+        } catch (e) {
         }
+    };
+
+    #onChildAdded = async (child: Child): Promise<void> => {
+        const { device } = this;
+
+        try {
+            try {
+                let name: string | null = null;
+
+                const { path } = child;
+                if (path !== null) {
+                    name = path;
+                }
+
+                const { identifier } = child;
+                if (identifier !== null) {
+                    name = identifier;
+                }
+
+                const parent = this.#agents.get(child.parentPid);
+
+                if (name === null && child.origin === "fork") {
+                    if (parent !== undefined) {
+                        name = parent.name;
+                    }
+                }
+
+                if (name === null) {
+                    name = "<unknown>";
+                }
+
+                const agentSpec = (parent !== undefined) ? parent.spec : this.#defaultAgentSpec!;
+                const lineage = (parent === undefined)
+                    ? []
+                    : (child.origin === "exec") ? parent.lineage : [...parent.lineage, parent.pid];
+
+                const { childFilter } = agentSpec;
+                if (!acceptsChild(agentSpec.children, child, lineage.length) ||
+                        (childFilter !== null && !await this.#childMatches(childFilter, child, name))) {
+                    await device.resume(child.pid);
+                    return;
+                }
+
+                name += ` from ${child.origin}`;
+
+                const agent = await this.#instrument(child.pid, name, agentSpec, { lineage, origin: child.origin as ProcessOrigin });
+
+                await agent.scheduler.perform("Resuming", (cancellable): Promise<void> => {
+                    return device.resume(child.pid, cancellable);
+                }, "resume");
+            } finally {
+            }
+        } catch (error) {
+            console.error(`Oops: ${(error as Error).stack}`);
+
+            try {
+                await device.resume(child.pid);
+            } catch (error) {
+            }
+        }
+    };
+
+    /**
+     * Matches the child against `filter`, enumerating its parameters first if
+     * the filter needs more than the path and parent PID it came with.
+     */
+    async #childMatches(filter: ProcessFilter, child: Child, name: string): Promise<boolean> {
+        let parameters: { [name: string]: any } = { path: child.path, ppid: child.parentPid };
+        if (filter.scope !== Scope.Minimal) {
+            const [process] = await this.device.enumerateProcesses({ pids: [child.pid], scope: filter.scope },
+                this.#cancellable);
+            if (process !== undefined) {
+                parameters = { ...parameters, ...process.parameters };
+            }
+        }
+
+        return filter.matches({ name: path.basename(name), parameters }, child.identifier);
+    }
+
+    #onOutput = (pid: number, fd: number, data: Buffer): void => {
+        const agent = this.#agents.get(pid);
+        const scope = (agent !== undefined) ? agent.scope : `${pid}@${this.device.name}`;
+        this.#delegate.onOutput(scope, pid, fd, data);
+    };
+
+    async #suggestProcessNames(name: string, cancellable: Cancellable): Promise<string> {
+        const processes = await this.device.enumerateProcesses(undefined, cancellable);
+        return formatSuggestions(suggest(name, processes.map(p => p.name)));
+    }
+
+    async #findMatchingProcesses(filter: ProcessFilter, cancellable: Cancellable): Promise<Process[]> {
+        const processes = await this.device.enumerateProcesses({ scope: filter.scope }, cancellable);
+        const untraced = processes.filter(process => !this.#agents.has(process.pid));
+        return untraced.filter(process => filter.matches(process));
+    }
+
+    async #findNumberedProcesses(targetProcess: TargetProcessById, cancellable: Cancellable): Promise<Process[]> {
+        const processes = await this.device.enumerateProcesses({}, cancellable);
+        const processesById = new Map<number, Process>(processes.map(p => [p.pid, p]));
+
+        const notFound = targetProcess.ids.filter(pid => !processesById.has(pid));
+        if (notFound.length !== 0) {
+            throw new Error(`Failed to find PIDs: ${notFound.join(', ')}`);
+        }
+
+        return targetProcess.ids.map(pid => processesById.get(pid)!);
     }
 
     async #getProcesses(targetProcess: TargetProcess): Promise<Process[]> {
@@ -334,65 +1346,54 @@ class DeviceController {
         let pid: number;
         switch (targetProcess.kind) {
             case "spawn":
-                pid = await this.#scheduler.perform(`Spawning "${targetProcess.program}"`, (): Promise<number> => {
-                    return device.spawn(targetProcess.program);
+                pid = await this.#scheduler.perform(`Spawning "${targetProcess.program}"`, (cancellable): Promise<number> => {
+                    return device.spawn(targetProcess.program, makeSpawnOptions(targetProcess), cancellable);
+                }, "spawn", orphan => {
+                    device.kill(orphan).catch(() => {});
                 });
                 break;
             case "by-ids":
-                return this.#scheduler.perform(`Resolving "${targetProcess.ids.join(", ")}"`, async (): Promise<Process[]> => {
-                    return await this.#findNumberedProcesses(targetProcess);
-                });
+                return this.#scheduler.perform(`Resolving "${targetProcess.ids.join(", ")}"`, async (cancellable): Promise<Process[]> => {
+                    return await this.#findNumberedProcesses(targetProcess, cancellable);
+                }, "resolve");
             case "by-name":
-                return this.#scheduler.perform(`Resolving "${targetProcess.name}"`, async (): Promise<Process[]> => {
-                    return [await device.getProcess(targetProcess.name, undefined, this.#cancellable)];
-                });
+                return this.#scheduler.perform(`Resolving "${targetProcess.name}"`, async (cancellable): Promise<Process[]> => {
+                    try {
+                        return [await device.getProcess(targetProcess.name, undefined, cancellable)];
+                    } catch (e) {
+                        if (cancellable.isCancelled) {
+                            throw e;
+                        }
+                        throw new Error(`${(e as Error).message}: "${targetProcess.name}".` +
+                            await this.#suggestProcessNames(targetProcess.name, cancellable));
+                    }
+                }, "resolve");
             case "all-by-name":
-                return this.#scheduler.perform(`Resolving "${targetProcess.name}"`, async (): Promise<Process[]> => {
-                    return this.#findNamedProcesses(targetProcess.name);
-                });
             case "any-by-name":
-                return this.#scheduler.perform(`Resolving "${targetProcess.name}"`, async (): Promise<Process[]> => {
-                    return this.#findNamedProcesses(targetProcess.name).then((targetProcesses) => {
-                        if (targetProcesses.length === 0) {
-                            throw new Error(`Failed to find process "${targetProcess.name}" on host "${this.device.name}"`)
-                        }
-                        return [targetProcesses[0]];
-                    });
-                });
             case "by-gating":
-                return await this.#scheduler.perform(`Waiting for "${targetProcess.name}"`, (): Promise<Process[]> => {
-                    return new Promise((resolve, reject) => {
-                        this.#onSpawnGatingDisabled = fatReject;
-
-                        const onSpawnAdded: SpawnAddedHandler = async (spawn) => {
-                            const { identifier, pid } = spawn;
-
-                            const processes = await device.enumerateProcesses(undefined, this.#cancellable);
-                            const proc = processes.find(p => p.pid === pid);
-                            if (proc === undefined) {
-                                device.resume(pid);
-                                return;
-                            }
-
-                            if (identifier === targetProcess.name || proc.name === targetProcess.name) {
-                                resolve([proc]);
-                                return;
-                            }
-
-                            device.resume(pid);
-                        };
+            case "matching": {
+                const [filter, mode] = getMatchingCriteria(targetProcess);
 
-                        device.spawnAdded.connect(onSpawnAdded);
-
-                        device.enableSpawnGating()
-                            .catch(fatReject);
+                if (mode === "gating") {
+                    return await this.#scheduler.perform(`Waiting for "${filter.description}"`, async (cancellable): Promise<Process[]> => {
+                        return [await this.#waitForSpawn(filter, cancellable)];
+                    }, "wait");
+                }
 
-                        function fatReject(error: Error) {
-                            device.spawnAdded.disconnect(onSpawnAdded);
-                            reject(error);
-                        }
-                    });
-                });
+                return this.#scheduler.perform(`Resolving "${filter.description}"`, async (cancellable): Promise<Process[]> => {
+                    const matches = await this.#findMatchingProcesses(filter, cancellable);
+                    if (mode === "all") {
+                        return matches;
+                    }
+                    if (matches.length === 0) {
+                        const suggestions = (targetProcess.kind === "any-by-name")
+                            ? await this.#suggestProcessNames(targetProcess.name, cancellable)
+                            : "";
+                        throw new Error(`Failed to find process "${filter.description}" on host "${this.device.name}".${suggestions}`)
+                    }
+                    return [matches[0]];
+                }, "resolve");
+            }
             case "by-frontmost":
                 const frontmost = await device.getFrontmostApplication(undefined, this.#cancellable);
                 if (frontmost === null) {
@@ -414,61 +1415,278 @@ class DeviceController {
     }
 }
 
+interface EnlistedTarget {
+    targetProcess: TargetProcess;
+    agentSpec: AgentSpec;
+}
+
+interface EnlistedFilter {
+    filter: ProcessFilter;
+    agentSpec: AgentSpec;
+
+    /**
+     * Number of processes left to attach to before no longer watching.
+     */
+    remaining: number;
+}
+
+interface SpawnWaiter {
+    filter: ProcessFilter;
+    resolve(process: Process): void;
+    reject(error: Error): void;
+}
+
+function isSuspended(targetProcess: TargetProcess): boolean {
+    switch (targetProcess.kind) {
+        case "spawn":
+        case "by-gating":
+            return true;
+        case "matching":
+            return targetProcess.mode === "gating";
+        default:
+            return false;
+    }
+}
+
+function getWatchFilter(targetProcess: TargetProcess): ProcessFilter | null {
+    if (targetProcess.kind === "all-by-name" && targetProcess.watch !== false) {
+        return ProcessFilter.forName(targetProcess.name);
+    }
+    if (targetProcess.kind === "matching" && targetProcess.mode === "all" && targetProcess.watch !== false) {
+        return ProcessFilter.forTarget(targetProcess);
+    }
+    return null;
+}
+
+function getMaxMatches(targetProcess: TargetProcess): number | null {
+    if (targetProcess.kind === "all-by-name" || targetProcess.kind === "matching") {
+        return targetProcess.maxMatches ?? null;
+    }
+    return null;
+}
+
+function getMatchingCriteria(targetProcess: TargetProcessAllByName | TargetProcessAnyByName | TargetProcessByGating |
+        TargetProcessMatching): [ProcessFilter, MatchingMode] {
+    switch (targetProcess.kind) {
+        case "all-by-name":
+            return [ProcessFilter.forName(targetProcess.name), "all"];
+        case "any-by-name":
+            return [ProcessFilter.forName(targetProcess.name), "any"];
+        case "by-gating":
+            return [ProcessFilter.forName(targetProcess.name), "gating"];
+        case "matching":
+            return [ProcessFilter.forTarget(targetProcess), targetProcess.mode];
+    }
+}
+
+function widestScope(filters: ProcessFilter[]): Scope {
+    return filters.some(f => f.scope !== Scope.Minimal) ? Scope.Metadata : Scope.Minimal;
+}
+
+function acceptsChild(policy: ChildPolicy, child: Child, depth: number): boolean {
+    if (policy.enabled === false) {
+        return false;
+    }
+    if (policy.maxDepth !== undefined && depth > policy.maxDepth) {
+        return false;
+    }
+    if (policy.origins !== undefined && !policy.origins.includes(child.origin as ChildOrigin)) {
+        return false;
+    }
+    return true;
+}
+
+function makeChildFilter(policy: ChildPolicy): ProcessFilter | null {
+    const { include = [], exclude = [] } = policy;
+
+    if (include.length === 0 && exclude.length === 0) {
+        return null;
+    }
+    return ProcessFilter.forMatchers(include, exclude);
+}
+
+/**
+ * Child gating is only needed while children may still be accepted. Past the
+ * maximum depth that is limited to execs, which replace the process in place.
+ */
+function wantsChildGating(policy: ChildPolicy, depth: number): boolean {
+    const origins = policy.origins ?? ["fork", "exec", "spawn"];
+
+    if (policy.enabled === false) {
+        return false;
+    }
+    if (policy.maxDepth !== undefined && depth >= policy.maxDepth) {
+        return origins.includes("exec");
+    }
+    return origins.length !== 0;
+}
+
+function makeSpawnOptions(targetProcess: TargetProcessSpawn): SpawnOptions {
+    const { argv, env, envp, cwd, stdio, aux } = targetProcess;
+
+    const options: SpawnOptions = { ...aux };
+    if (argv !== undefined) {
+        options.argv = argv;
+    }
+    if (env !== undefined) {
+        options.env = env;
+    }
+    if (envp !== undefined) {
+        options.envp = envp;
+    }
+    if (cwd !== undefined) {
+        options.cwd = cwd;
+    }
+    if (stdio !== undefined) {
+        options.stdio = (stdio === "pipe") ? Stdio.Pipe : Stdio.Inherit;
+    }
+
+    return options;
+}
+
 export interface Delegate {
     onProgress(operation: Operation): void;
     onConsoleMessage(scope: string, level: LogLevel, text: string): void;
+    onOutput(scope: string, pid: number, fd: number, data: Buffer): void;
+    onAgentMessage(agent: AgentIdentity, payload: any, data: Buffer | null): void;
+    onAgentError(agent: AgentIdentity, error: ScriptError): void;
+    onTracedCalls(agent: AgentIdentity, calls: TracedCall[]): void;
+    onModulesLoaded(agent: AgentIdentity, modules: ModuleInfo[]): void;
+    onAttached(agent: AgentIdentity): void;
+    onDetached(agent: AgentIdentity, reason: SessionDetachReason, exit: ProcessExit | null): void;
+    onReconnecting(device: string, attempt: number, maxAttempts: number): void;
+    onReconnected(device: string, attempts: number): void;
+    onStopped(reason: StopReason): void;
+    onSummary(summary: RunSummary): void;
+}
+
+export interface StopReason {
+    kind: StopReasonKind;
+    description: string;
+
+    /**
+     * Exit status of the process whose exit ended the run, if known.
+     */
+    exitStatus: number | null;
+}
+
+/**
+ * How a terminated process ended, as far as is known: its exit status if the
+ * agent saw it exit, and a summary of the crash if it crashed.
+ */
+export interface ProcessExit {
+    status: number | null;
+    crash: string | null;
 }
 
+export type StopReasonKind =
+    | "finished"
+    | "interrupted"
+    | "failed"
+    | "duration"
+    | "process-exit"
+    | "messages"
+    | "completion"
+    ;
+
+export interface AgentIdentity {
+    scope: string;
+    name: string;
+    pid: number;
+    device: string;
+    lineage: number[];
+    origin: ProcessOrigin;
+}
+
+type Parentage = Pick<AgentIdentity, "lineage" | "origin">;
+
+const rootParentage: Parentage = { lineage: [], origin: "target" };
+
+export interface ScriptError {
+    description: string;
+    stack?: string;
+    fileName?: string;
+    lineNumber?: number;
+    columnNumber?: number;
+}
+
+interface PendingDump {
+    handle: fs.promises.FileHandle;
+    written: Promise<void>;
+    unreadable: number;
+}
+
+const dumpChunkSize = 1024 * 1024;
+let nextDumpId = 1;
+
 class Agent {
+    scope: string;
+    identity: AgentIdentity;
     scheduler: OperationScheduler;
     events: EventEmitter = new EventEmitter();
 
     #delegate: Delegate;
 
     #session: Session | null = null;
-    #script: Script | null = null;
-    #api: AgentApi | null = null;
+    #scripts: AgentScript[];
+    #dumps = new Map<number, PendingDump>();
+    #exitStatus: number | null = null;
 
     constructor(
             public device: string,
             public pid: number,
             public name: string,
-            delegate: Delegate) {
-        this.scheduler = new OperationScheduler(`${this.name}:${this.pid}@${this.device}`, delegate);
+            public spec: AgentSpec,
+            public lineage: number[],
+            origin: ProcessOrigin,
+            delegate: Delegate,
+            scheduler: OperationScheduler) {
+        this.scope = `${this.name}:${this.pid}@${this.device}`;
+        this.identity = { scope: this.scope, name, pid, device, lineage, origin };
+        this.scheduler = scheduler.fork(this.scope);
 
         this.#delegate = delegate;
+
+        this.#scripts = spec.scripts.map((scriptSpec, index) => {
+            const scope = (index === 0) ? this.scope : `${scriptSpec.name}/${this.scope}`;
+            const entry: AgentScript = {
+                spec: scriptSpec,
+                scope,
+                identity: { ...this.identity, scope },
+                scheduler: (index === 0) ? this.scheduler : this.scheduler.fork(scope),
+                script: null,
+                api: null,
+                exports: null,
+                channel: new AgentChannel(),
+                onMessage: (message, data) => this.#onMessage(entry, message, data),
+            };
+            return entry;
+        });
     }
 
-    public static async inject(device: Device, pid: number, name: string, delegate: Delegate): Promise<Agent> {
-        const agent = new Agent(device.name, pid, name, delegate);
+    public static async inject(device: Device, pid: number, name: string, spec: AgentSpec, parentage: Parentage,
+            delegate: Delegate, parentScheduler: OperationScheduler): Promise<Agent> {
+        const { lineage, origin } = parentage;
+        const agent = new Agent(device.name, pid, name, spec, lineage, origin, delegate, parentScheduler);
         const { scheduler } = agent;
 
         try {
-            const session = await scheduler.perform(`Attaching to PID ${name}:${pid}@${device.name}`, (): Promise<Session> => {
-                return device.attach(pid);
+            const session = await scheduler.perform(`Attaching to PID ${name}:${pid}@${device.name}`, (cancellable): Promise<Session> => {
+                return device.attach(pid, undefined, cancellable);
+            }, "attach", lateSession => {
+                lateSession.detach().catch(() => {});
             });
             agent.#session = session;
             session.detached.connect(agent.#onDetached);
-            await scheduler.perform("Enabling child gating", (): Promise<void> => {
-                return session.enableChildGating();
-            });
-
-            const code = await readFile(new URL("./agent.js", import.meta.url).pathname, "utf-8");
-            const script = await scheduler.perform("Creating script", (): Promise<Script> => {
-                return session.createScript(code, { runtime: ScriptRuntime.QJS });
-            });
-            agent.#script = script;
-            script.logHandler = agent.#onConsoleMessage;
-            script.message.connect(agent.#onMessage);
-            await scheduler.perform("Loading script", (): Promise<void> => {
-                return script.load();
-            });
-
-            agent.#api = script.exports as any as AgentApi;
+            if (wantsChildGating(spec.children, lineage.length)) {
+                await scheduler.perform("Enabling child gating", (cancellable): Promise<void> => {
+                    return session.enableChildGating(cancellable);
+                }, "enable-child-gating");
+            }
 
-            await scheduler.perform("Initializing", (): Promise<void> => {
-                return (agent.#api as AgentApi).init();
-            });
+            for (const entry of agent.#scripts) {
+                await agent.#loadScript(session, entry);
+            }
         } catch (e) {
             await agent.dispose();
             throw e;
@@ -477,17 +1695,67 @@ class Agent {
         return agent;
     }
 
-    public async dispose() {
-        const script = this.#script;
-        if (script !== null) {
-            this.#script = null;
+    /**
+     * Reloads the loaded scripts whose code comes from `source`.
+     */
+    public async reloadScripts(source: AgentSource): Promise<void> {
+        for (const entry of this.#scripts) {
+            if (entry.spec.source === source && entry.script !== null) {
+                await this.reloadScript(entry.spec.name);
+            }
+        }
+    }
 
-            await this.scheduler.perform("Unloading script", async (): Promise<void> => {
-                try {
-                    await script.unload();
-                } catch (error) {
-                }
-            });
+    public async loadScript(name: string): Promise<void> {
+        const session = this.#session;
+        if (session === null) {
+            throw new Error("Not attached");
+        }
+
+        const entry = this.#getScript(name);
+        if (entry.script !== null) {
+            throw new Error(`Script "${name}" already loaded`);
+        }
+        await this.#loadScript(session, entry);
+    }
+
+    public async unloadScript(name: string): Promise<void> {
+        await this.#unloadScript(this.#getScript(name));
+    }
+
+    public async reloadScript(name: string): Promise<void> {
+        const session = this.#session;
+        if (session === null) {
+            throw new Error("Not attached");
+        }
+
+        await this.#loadScript(session, this.#getScript(name));
+    }
+
+    public listScripts(): ScriptInfo[] {
+        return this.#scripts.map(({ spec, scope, script }) => ({
+            name: spec.name,
+            scope,
+            source: spec.source.path,
+            loaded: script !== null,
+        }));
+    }
+
+    /**
+     * Returns the name of the script going by `scope`, if any.
+     */
+    public findScript(scope: string): string | null {
+        return this.#scripts.find(entry => entry.scope === scope)?.spec.name ?? null;
+    }
+
+    public getChannel(scriptName: string): AgentChannel {
+        return this.#getScript(scriptName).channel;
+    }
+
+    public async dispose() {
+        for (const entry of this.#scripts.slice().reverse()) {
+            await this.#unloadScript(entry);
+            entry.channel.close();
         }
 
         const session = this.#session;
@@ -499,55 +1767,457 @@ class Agent {
                     await session.detach();
                 } catch (error) {
                 }
+            }, "detach");
+        }
+    }
+
+    public async call(method: string, args: any[], scriptName: string = agentScriptName): Promise<any> {
+        const { script, api } = this.#getScript(scriptName);
+        if (script === null || api === null) {
+            throw new Error((scriptName === agentScriptName) ? "Agent not loaded" : `Script "${scriptName}" not loaded`);
+        }
+
+        return script.exports[method](...args);
+    }
+
+    /**
+     * Lists the exports of the script, as reported by its `listExports()` RPC,
+     * or nothing if it doesn't implement it. The list is kept until the script
+     * is reloaded.
+     */
+    public listExports(scriptName: string = agentScriptName): Promise<string[]> {
+        const entry = this.#getScript(scriptName);
+        if (entry.exports === null) {
+            entry.exports = this.call("listExports", [], scriptName)
+                .catch(() => []);
+        }
+        return entry.exports;
+    }
+
+    public async dumpMemory(protection: string, directory: string): Promise<MemoryDump[]> {
+        const { scheduler } = this;
+
+        return scheduler.perform(`Dumping ${protection} memory`, async (): Promise<MemoryDump[]> => {
+            const ranges: RangeInfo[] = await this.call("enumerateRanges", [protection]);
+            await fs.promises.mkdir(directory, { recursive: true });
+
+            const dumps: MemoryDump[] = [];
+            for (const range of ranges) {
+                dumps.push(await scheduler.perform(`Dumping ${range.base} (${range.size} bytes)`, (cancellable): Promise<MemoryDump> => {
+                    return this.#dumpRange(range, path.join(directory, `${range.base}.bin`), cancellable);
+                }, "dump-memory"));
+            }
+            return dumps;
+        }, "dump-memory");
+    }
+
+    /**
+     * Asks for the range a chunk at a time, so that no more than one is ever
+     * in flight, however large the range. The agent sends each chunk as a
+     * message, which is written to the file as it arrives.
+     */
+    async #dumpRange(range: RangeInfo, filePath: string, cancellable: Cancellable): Promise<MemoryDump> {
+        const { base, size, protection } = range;
+        const dumpId = nextDumpId++;
+        const handle = await fs.promises.open(filePath, "w");
+        const dump: PendingDump = { handle, written: Promise.resolve(), unreadable: 0 };
+
+        this.#dumps.set(dumpId, dump);
+        try {
+            for (let offset = 0; offset < size; offset += dumpChunkSize) {
+                if (cancellable.isCancelled) {
+                    throw new OperationCancelledError();
+                }
+
+                await this.call("dumpMemory", [dumpId, base, offset, Math.min(dumpChunkSize, size - offset)]);
+                await dump.written;
+            }
+            await handle.truncate(size);
+        } finally {
+            this.#dumps.delete(dumpId);
+            await dump.written.catch(() => {});
+            await handle.close();
+        }
+
+        return { base, size, protection, path: filePath, unreadable: dump.unreadable };
+    }
+
+    /**
+     * Loads the script of `entry`, replacing the one already loaded, if any,
+     * only once the new one has loaded, so that it stays if that fails.
+     */
+    async #loadScript(session: Session, entry: AgentScript): Promise<void> {
+        const { spec, scope, scheduler } = entry;
+
+        const script = await scheduler.perform("Creating script", (cancellable): Promise<Script> => {
+            return session.createScript(spec.source.code, { runtime: spec.runtime }, cancellable);
+        }, "create-script");
+        script.logHandler = (level, text) => {
+            this.#delegate.onConsoleMessage(scope, level, text);
+        };
+        script.message.connect(entry.onMessage);
+        try {
+            await scheduler.perform("Loading script", (cancellable): Promise<void> => {
+                return script.load(cancellable);
+            }, "load-script");
+        } catch (e) {
+            script.message.disconnect(entry.onMessage);
+            try {
+                await script.unload();
+            } catch (error) {
+            }
+            throw e;
+        }
+
+        await this.#unloadScript(entry);
+        entry.script = script;
+        entry.exports = null;
+        entry.channel.connect(message => script.post(message));
+
+        const api = script.exports as any as AgentApi;
+        entry.api = api;
+
+        await scheduler.perform("Initializing", (cancellable): Promise<void> => {
+            // AgentApi has no room for the cancellable that the exports proxy takes last.
+            return script.exports.init(spec.parameters, cancellable);
+        }, "init");
+
+        if (entry !== this.#scripts[0]) {
+            return;
+        }
+
+        if (this.spec.trace.length !== 0) {
+            await this.#startTracing(api, this.spec.trace);
+        }
+        if (this.spec.watchModules) {
+            await this.#performOptional("Watching modules", "watch-modules", (): Promise<void> => {
+                if (api.watchModules === undefined) {
+                    throw new Error("Agent does not implement watchModules()");
+                }
+                return api.watchModules();
+            });
+        }
+        if (this.spec.watchExit) {
+            await this.#performOptional("Watching for exit", "watch-exit", (): Promise<void> => {
+                if (api.watchExit === undefined) {
+                    throw new Error("Agent does not implement watchExit(), so its exit status is unknown");
+                }
+                return api.watchExit();
+            });
+        }
+    }
+
+    async #startTracing(api: AgentApi, specs: TraceSpec[]): Promise<void> {
+        const functions = await this.#performOptional("Starting tracing", "start-tracing", (): Promise<string[]> => {
+            if (api.startTracing === undefined) {
+                throw new Error("Agent does not implement startTracing()");
+            }
+            return api.startTracing(specs);
+        });
+        if (functions === null) {
+            return;
+        }
+
+        if (functions.length !== 0) {
+            this.#delegate.onConsoleMessage(this.scope, LogLevel.Info,
+                `Tracing ${functions.length} function${(functions.length !== 1) ? "s" : ""}`);
+        } else {
+            this.#delegate.onConsoleMessage(this.scope, LogLevel.Warning, "No functions matched, so none are traced");
+        }
+    }
+
+    /**
+     * Performs work that the agent is still of use without, warning instead of
+     * failing if it can't be done.
+     */
+    async #performOptional<T>(description: string, kind: OperationKind, work: () => Promise<T>): Promise<T | null> {
+        try {
+            return await this.scheduler.perform(description, async (): Promise<T> => work(), kind);
+        } catch (e) {
+            this.#delegate.onConsoleMessage(this.scope, LogLevel.Warning, `${description} failed: ${(e as Error).message}`);
+            return null;
+        }
+    }
+
+    async #unloadScript(entry: AgentScript): Promise<void> {
+        const { script } = entry;
+        if (script === null) {
+            return;
+        }
+
+        entry.script = null;
+        entry.api = null;
+        entry.exports = null;
+        entry.channel.disconnect();
+        script.message.disconnect(entry.onMessage);
+
+        await entry.scheduler.perform("Unloading script", async (): Promise<void> => {
+            try {
+                await script.unload();
+            } catch (error) {
+            }
+        }, "unload-script");
+    }
+
+    #onMemoryChunk(chunk: MemoryChunkMessage, data: Buffer | null): void {
+        const dump = this.#dumps.get(chunk.dumpId);
+        if (dump === undefined) {
+            return;
+        }
+
+        dump.unreadable += chunk.unreadable;
+        if (data !== null) {
+            const { handle } = dump;
+            dump.written = dump.written.then(async () => {
+                await handle.write(data, 0, data.length, chunk.offset);
             });
         }
     }
 
-    #onDetached = (reason: SessionDetachReason): void => {
+    #onDetached = (reason: SessionDetachReason, crash: Crash | null): void => {
+        for (const { channel } of this.#scripts) {
+            channel.close();
+        }
+
+        const exit: ProcessExit | null = (reason === SessionDetachReason.ProcessTerminated)
+            ? { status: this.#exitStatus, crash: crash?.summary ?? null }
+            : null;
+        this.#delegate.onDetached(this.identity, reason, exit);
         this.events.emit("uninjected", reason);
     };
 
-    #onConsoleMessage = (level: LogLevel, text: string): void => {
-        this.#delegate.onConsoleMessage(`${this.name}:${this.pid}@${this.device}`, level, text);
-    };
+    #onMessage(entry: AgentScript, message: Message, data: Buffer | null): void {
+        const { identity } = entry;
 
-    #onMessage = (message: Message, data: Buffer | null): void => {
         switch (message.type) {
             case MessageType.Send:
-                console.error(`[PID=${this.pid}]:`, message.payload);
+                if (isTraceMessage(message.payload)) {
+                    this.#delegate.onTracedCalls(identity, message.payload.calls);
+                } else if (isModulesLoadedMessage(message.payload)) {
+                    this.#delegate.onModulesLoaded(identity, message.payload.modules);
+                } else if (isMemoryChunkMessage(message.payload)) {
+                    this.#onMemoryChunk(message.payload, data);
+                } else if (isEventMessage(message.payload) || isReplyMessage(message.payload)) {
+                    entry.channel.receive(message.payload);
+                } else if (isExitMessage(message.payload)) {
+                    this.#exitStatus = message.payload.status;
+                } else {
+                    this.#delegate.onAgentMessage(identity, message.payload, data);
+                }
                 break;
-            case MessageType.Error:
-                console.error(`[PID=${this.pid}]:`, message.stack);
+            case MessageType.Error: {
+                const { description, stack, fileName, lineNumber, columnNumber } = message;
+                this.#delegate.onAgentError(identity, { description, stack, fileName, lineNumber, columnNumber });
                 break;
+            }
             default:
         }
-    };
+    }
+
+    #getScript(name: string): AgentScript {
+        const entry = this.#scripts.find(e => e.spec.name === name);
+        if (entry === undefined) {
+            throw new Error(`No script named "${name}" in ${this.scope}`);
+        }
+        return entry;
+    }
+}
+
+/**
+ * One of the scripts loaded into a process. The agent's own script goes by
+ * the process' scope, and others by their name followed by it, e.g.
+ * "tracer/Twitter:1234@Local System".
+ */
+interface AgentScript {
+    spec: ScriptSpec;
+    scope: string;
+    identity: AgentIdentity;
+    scheduler: OperationScheduler;
+    script: Script | null;
+    api: AgentApi | null;
+    exports: Promise<string[]> | null;
+    channel: AgentChannel;
+    onMessage: (message: Message, data: Buffer | null) => void;
+}
+
+function isTraceMessage(payload: any): payload is TraceMessage {
+    return typeof payload === "object" && payload !== null && payload.type === "trace" && Array.isArray(payload.calls);
 }
 
+function isMemoryChunkMessage(payload: any): payload is MemoryChunkMessage {
+    return typeof payload === "object" && payload !== null && payload.type === "memory-chunk" &&
+        typeof payload.dumpId === "number";
+}
+
+function isExitMessage(payload: any): payload is ExitMessage {
+    return typeof payload === "object" && payload !== null && payload.type === "exit" &&
+        typeof payload.status === "number";
+}
+
+function isEventMessage(payload: any): payload is EventMessage {
+    return typeof payload === "object" && payload !== null && payload.type === "event" &&
+        typeof payload.event === "string";
+}
+
+function isReplyMessage(payload: any): payload is ReplyMessage {
+    return typeof payload === "object" && payload !== null && payload.type === "reply" &&
+        typeof payload.id === "number";
+}
+
+function isModulesLoadedMessage(payload: any): payload is ModulesLoadedMessage {
+    return typeof payload === "object" && payload !== null && payload.type === "modules-loaded" &&
+        Array.isArray(payload.modules);
+}
+
+/**
+ * Teardown must go ahead even after cancellation, and waiting is open-ended,
+ * so those kinds of operations are exempt from cancellation and the default
+ * policy respectively.
+ */
+const uncancellableOperations: OperationKind[] = ["unload-script", "detach"];
+const openEndedOperations: OperationKind[] = ["wait"];
+
+/**
+ * Operations with side effects that a timed out attempt may still go on to
+ * have, such as starting the program a second time.
+ */
+const unretriableOperations: OperationKind[] = ["spawn"];
+
 class OperationScheduler {
     #scope: string;
     #delegate: Delegate;
+    #policies: OperationPolicies;
+    #cancellable: Cancellable;
 
-    constructor(scope: string, delegate: Delegate) {
+    constructor(scope: string, delegate: Delegate, policies: OperationPolicies, cancellable: Cancellable) {
         this.#scope = scope;
         this.#delegate = delegate;
+        this.#policies = policies;
+        this.#cancellable = cancellable;
     }
 
-    public async perform<T>(description: string, work: () => Promise<T>): Promise<T> {
-        let result: T;
+    public fork(scope: string): OperationScheduler {
+        return new OperationScheduler(scope, this.#delegate, this.#policies, this.#cancellable);
+    }
 
-        const operation = new AsyncOperation(this.#scope, description);
+    /**
+     * Performs `work` as set out by the policy for `kind`, handing any result
+     * that arrives after its attempt timed out or was cancelled to `discard`,
+     * to release it.
+     */
+    public async perform<T>(description: string, work: (cancellable: Cancellable) => Promise<T>,
+            kind: OperationKind | null = null, discard: ((result: T) => void) | null = null): Promise<T> {
+        const policy = this.#getPolicy(kind);
+        const cancellable = (kind !== null && uncancellableOperations.includes(kind)) ? null : this.#cancellable;
+        const maxAttempts = (kind !== null && unretriableOperations.includes(kind)) ? 1 : 1 + (policy.retries ?? 0);
+        let delay = policy.retryDelay ?? 250;
+
+        const operation = new AsyncOperation(this.#scope, description, kind);
         this.#delegate.onProgress(operation);
 
-        try {
-            result = await work();
+        while (true) {
+            operation.beginAttempt();
 
-            operation.complete();
-        } catch (error) {
-            operation.complete(error as Error);
-            throw error;
+            try {
+                const result = await attempt(c => operation.run(() => work(c)), policy.timeout ?? 0, cancellable, discard);
+
+                operation.complete();
+
+                return result;
+            } catch (error) {
+                const mayRetry = operation.attempts < maxAttempts && !(error instanceof OperationCancelledError);
+                if (mayRetry) {
+                    try {
+                        await sleep(delay, cancellable);
+                        delay *= policy.backoff ?? 2;
+                        continue;
+                    } catch (cancelledError) {
+                        error = cancelledError;
+                    }
+                }
+
+                operation.complete(error as Error);
+                throw error;
+            }
         }
+    }
+
+    #getPolicy(kind: OperationKind | null): OperationPolicy {
+        const policies = this.#policies;
 
-        return result;
+        if (kind === null) {
+            return {};
+        }
+
+        const defaults = openEndedOperations.includes(kind) ? {} : policies.default;
+        return { ...defaults, ...policies[kind] };
     }
 }
+
+function attempt<T>(work: (cancellable: Cancellable) => Promise<T>, timeout: number,
+        parentCancellable: Cancellable | null, discard: ((result: T) => void) | null): Promise<T> {
+    return new Promise((resolve, reject) => {
+        if (parentCancellable?.isCancelled) {
+            reject(new OperationCancelledError());
+            return;
+        }
+
+        const cancellable = new Cancellable();
+        let abandoned = false;
+
+        const timer = (timeout > 0)
+            ? setTimeout(() => abort(new OperationTimeoutError(timeout)), timeout)
+            : null;
+        const onCancelled = () => abort(new OperationCancelledError());
+        parentCancellable?.cancelled.connect(onCancelled);
+
+        work(cancellable).then(
+            result => {
+                if (abandoned) {
+                    discard?.(result);
+                    return;
+                }
+                finish();
+                resolve(result);
+            },
+            error => {
+                finish();
+                reject(error);
+            });
+
+        function abort(error: Error) {
+            abandoned = true;
+            finish();
+            cancellable.cancel();
+            reject(error);
+        }
+
+        function finish() {
+            if (timer !== null) {
+                clearTimeout(timer);
+            }
+            parentCancellable?.cancelled.disconnect(onCancelled);
+        }
+    });
+}
+
+function sleep(duration: number, cancellable: Cancellable | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (cancellable?.isCancelled) {
+            reject(new OperationCancelledError());
+            return;
+        }
+
+        const timer = setTimeout(() => {
+            cancellable?.cancelled.disconnect(onCancelled);
+            resolve();
+        }, duration);
+
+        const onCancelled = () => {
+            clearTimeout(timer);
+            cancellable?.cancelled.disconnect(onCancelled);
+            reject(new OperationCancelledError());
+        };
+        cancellable?.cancelled.connect(onCancelled);
+    });
+}
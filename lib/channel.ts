@@ -0,0 +1,179 @@
+import {
+    AgentCommands,
+    AgentEvent,
+    AgentEvents,
+    CommandMessage,
+    CommandRequest,
+    CommandResponse,
+    EventMessage,
+    ReplyMessage,
+} from "./agent/interfaces.js";
+
+import { EventEmitter } from "events";
+
+export const defaultCommandTimeout = 10000;
+
+export class CommandTimeoutError extends Error {
+    constructor(public command: string, public timeout: number) {
+        super(`Command "${command}" timed out after ${timeout} ms`);
+        this.name = "CommandTimeoutError";
+    }
+}
+
+interface PendingCommand {
+    resolve: (response: any) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+}
+
+type Post = (message: CommandMessage) => void;
+
+/**
+ * Typed messaging with one of an agent's scripts, outliving reloads of it:
+ * events it emits, available as an `EventEmitter` or async iterator, and
+ * commands posted to it, resolving with its reply.
+ */
+export class AgentChannel {
+    #post: Post | null = null;
+    #events = new EventEmitter();
+    #iterators = new Set<(event: AgentEvent | null) => void>();
+    #pending = new Map<number, PendingCommand>();
+    #nextId = 1;
+    #closed = false;
+
+    public on<K extends keyof AgentEvents>(event: K, listener: (payload: AgentEvents[K]) => void): this {
+        this.#events.on(event, listener);
+        return this;
+    }
+
+    public once<K extends keyof AgentEvents>(event: K, listener: (payload: AgentEvents[K]) => void): this {
+        this.#events.once(event, listener);
+        return this;
+    }
+
+    public off<K extends keyof AgentEvents>(event: K, listener: (payload: AgentEvents[K]) => void): this {
+        this.#events.off(event, listener);
+        return this;
+    }
+
+    /**
+     * Yields the events emitted from the start of iteration on, ending once
+     * the agent is gone.
+     */
+    public async *[Symbol.asyncIterator](): AsyncGenerator<AgentEvent, void, undefined> {
+        const queue: AgentEvent[] = [];
+        let wake: (() => void) | null = null;
+        const onEvent = (event: AgentEvent | null) => {
+            if (event !== null) {
+                queue.push(event);
+            }
+            wake?.();
+        };
+
+        this.#iterators.add(onEvent);
+        try {
+            while (true) {
+                const event = queue.shift();
+                if (event !== undefined) {
+                    yield event;
+                } else if (this.#closed) {
+                    return;
+                } else {
+                    await new Promise<void>(resolve => { wake = resolve; });
+                    wake = null;
+                }
+            }
+        } finally {
+            this.#iterators.delete(onEvent);
+        }
+    }
+
+    public request<K extends keyof AgentCommands>(command: K, request: CommandRequest<K>,
+            timeout: number = defaultCommandTimeout): Promise<CommandResponse<K>> {
+        const post = this.#post;
+        if (post === null) {
+            return Promise.reject(new Error(this.#closed ? "Agent is gone" : "Script not loaded"));
+        }
+
+        const id = this.#nextId++;
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.#pending.delete(id);
+                reject(new CommandTimeoutError(command, timeout));
+            }, timeout);
+            this.#pending.set(id, { resolve, reject, timer });
+
+            try {
+                post({ type: "command", id, command, request });
+            } catch (e) {
+                this.#settle(id, e as Error);
+            }
+        });
+    }
+
+    /**
+     * Posts commands through `post` from now on, for a newly loaded script.
+     */
+    public connect(post: Post): void {
+        this.#post = post;
+    }
+
+    /**
+     * Stops posting commands, failing those still awaiting a reply.
+     */
+    public disconnect(): void {
+        this.#post = null;
+        this.#failPending("Script unloaded");
+    }
+
+    /**
+     * Disconnects for good, ending iteration.
+     */
+    public close(): void {
+        if (this.#closed) {
+            return;
+        }
+        this.#closed = true;
+
+        this.#post = null;
+        this.#failPending("Agent is gone");
+        for (const onEvent of this.#iterators) {
+            onEvent(null);
+        }
+    }
+
+    public receive(message: EventMessage | ReplyMessage): void {
+        if (message.type === "reply") {
+            const { id, response, error } = message;
+            this.#settle(id, (error !== null) ? new Error(error) : null, response);
+            return;
+        }
+
+        const { event, payload } = message;
+        for (const onEvent of this.#iterators) {
+            onEvent({ event, payload });
+        }
+        this.#events.emit(event, payload);
+    }
+
+    #failPending(reason: string): void {
+        for (const id of Array.from(this.#pending.keys())) {
+            this.#settle(id, new Error(reason));
+        }
+    }
+
+    #settle(id: number, error: Error | null, response?: any): void {
+        const pending = this.#pending.get(id);
+        if (pending === undefined) {
+            return;
+        }
+        this.#pending.delete(id);
+        clearTimeout(pending.timer);
+
+        if (error !== null) {
+            pending.reject(error);
+        } else {
+            pending.resolve(response);
+        }
+    }
+}
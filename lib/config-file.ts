@@ -0,0 +1,758 @@
+import { TraceSpec, ValueFormat } from "./agent/interfaces.js";
+import {
+    AgentOptions,
+    AgentRuntime,
+    ChildOrigin,
+    ChildPolicy,
+    Config,
+    Environment,
+    ExitConditions,
+    MatchingMode,
+    MessageCondition,
+    OperationKind,
+    OperationPolicies,
+    OperationPolicy,
+    ProcessMatcher,
+    ReconnectPolicy,
+    ScriptOptions,
+    StdioMode,
+    Target,
+    TargetDevice,
+    TargetProcess,
+    TargetProcessAllByName,
+    TargetProcessMatching,
+    TargetProcessSpawn,
+} from "./config.js";
+import { compilePattern } from "./process-filter.js";
+
+import * as fs from "fs";
+import * as path from "path";
+import { promisify } from "util";
+import YAML from "yaml";
+
+const readFile = promisify(fs.readFile);
+
+export type ConfigFormat = "json" | "yaml";
+
+export const operationKinds: OperationKind[] = [
+    "get-device",
+    "load-agent",
+    "spawn",
+    "resolve",
+    "wait",
+    "attach",
+    "enable-child-gating",
+    "create-script",
+    "load-script",
+    "init",
+    "start-tracing",
+    "watch-modules",
+    "watch-exit",
+    "scan-memory",
+    "dump-memory",
+    "resume",
+    "unload-script",
+    "detach",
+];
+
+export const valueFormats: ValueFormat[] = ["pointer", "int", "uint", "bool", "string", "utf16"];
+
+/**
+ * Name by which the agent's own script goes among the others.
+ */
+export const agentScriptName = "agent";
+
+export class ConfigError extends Error {
+    constructor(
+            public source: string,
+            public location: string,
+            public reason: string) {
+        super(`${source}: ${(location !== "") ? `${location}: ` : ""}${reason}`);
+        this.name = "ConfigError";
+    }
+}
+
+/**
+ * Loads the config at `filePath`. Relative agent sources are resolved against
+ * the directory containing it.
+ */
+export async function loadConfig(filePath: string): Promise<Config> {
+    const text = await readFile(filePath, "utf-8");
+    return parseConfig(text, inferFormat(filePath), filePath, path.dirname(filePath));
+}
+
+export function parseConfig(text: string, format: ConfigFormat, source: string = "<config>",
+        baseDir: string = process.cwd()): Config {
+    let document: unknown;
+    try {
+        document = (format === "yaml") ? YAML.parse(text) : JSON.parse(text);
+    } catch (error) {
+        throw new ConfigError(source, "", `Invalid ${format.toUpperCase()}: ${(error as Error).message}`);
+    }
+
+    return new ConfigReader(source, baseDir).readConfig(document);
+}
+
+export function parseTarget(value: unknown, source: string = "<target>"): Target {
+    return new ConfigReader(source, process.cwd()).readTarget(value);
+}
+
+/**
+ * Merges `extra` into `base`. Targets in `extra` whose device matches one in
+ * `base` contribute their processes to it, with their agent options and child
+ * policy taking precedence over its own, and others are appended. Targets left
+ * without any processes are dropped. Agent options, operation policies and the
+ * reconnect policy in `extra` take precedence, and scripts are merged as by
+ * `mergeScripts()`.
+ */
+export function mergeConfig(base: Config, extra: Config): Config {
+    const targets: Target[] = base.targets.map(t => ({ ...t, processes: t.processes.slice() }));
+
+    for (const target of extra.targets) {
+        if (target.processes.length === 0) {
+            continue;
+        }
+
+        const existing = targets.find(t => isSameDevice(t.device, target.device));
+        if (existing !== undefined) {
+            existing.processes.push(...target.processes);
+            if (target.agent !== undefined) {
+                existing.agent = { ...existing.agent, ...target.agent };
+            }
+            if (target.children !== undefined) {
+                existing.children = { ...existing.children, ...target.children };
+            }
+            if (target.scripts !== undefined) {
+                existing.scripts = mergeScripts(existing.scripts ?? [], target.scripts);
+            }
+        } else {
+            targets.push({ ...target, processes: target.processes.slice() });
+        }
+    }
+
+    const config: Config = {
+        targets: targets.filter(t => t.processes.length !== 0),
+    };
+
+    if (base.agent !== undefined || extra.agent !== undefined) {
+        config.agent = { ...base.agent, ...extra.agent };
+    }
+
+    const watchAgent = extra.watchAgent ?? base.watchAgent;
+    if (watchAgent !== undefined) {
+        config.watchAgent = watchAgent;
+    }
+
+    if (base.operations !== undefined || extra.operations !== undefined) {
+        const operations: OperationPolicies = { ...base.operations };
+        for (const [kind, policy] of Object.entries(extra.operations ?? {}) as [keyof OperationPolicies, OperationPolicy][]) {
+            operations[kind] = { ...operations[kind], ...policy };
+        }
+        config.operations = operations;
+    }
+
+    if (base.reconnect !== undefined || extra.reconnect !== undefined) {
+        config.reconnect = { ...base.reconnect, ...extra.reconnect };
+    }
+
+    if (base.exit !== undefined || extra.exit !== undefined) {
+        config.exit = { ...base.exit, ...extra.exit };
+    }
+
+    if (base.scripts !== undefined || extra.scripts !== undefined) {
+        config.scripts = mergeScripts(base.scripts ?? [], extra.scripts ?? []);
+    }
+
+    return config;
+}
+
+/**
+ * Scripts in `extra` replace those of the same name in `base`, keeping their
+ * place in the load order, and are otherwise appended.
+ */
+export function mergeScripts(base: ScriptOptions[], extra: ScriptOptions[]): ScriptOptions[] {
+    const scripts = base.slice();
+
+    for (const script of extra) {
+        const index = scripts.findIndex(s => s.name === script.name);
+        if (index !== -1) {
+            scripts[index] = script;
+        } else {
+            scripts.push(script);
+        }
+    }
+
+    return scripts;
+}
+
+function isSameDevice(a: TargetDevice, b: TargetDevice): boolean {
+    switch (a.kind) {
+        case "by-host":
+            return b.kind === "by-host" && b.host === a.host;
+        case "by-id":
+            return b.kind === "by-id" && b.id === a.id;
+        default:
+            return b.kind === a.kind;
+    }
+}
+
+function inferFormat(filePath: string): ConfigFormat {
+    switch (path.extname(filePath).toLowerCase()) {
+        case ".yml":
+        case ".yaml":
+            return "yaml";
+        default:
+            return "json";
+    }
+}
+
+type Dict = { [key: string]: unknown };
+
+class ConfigReader {
+    #source: string;
+    #baseDir: string;
+
+    constructor(source: string, baseDir: string) {
+        this.#source = source;
+        this.#baseDir = baseDir;
+    }
+
+    public readConfig(value: unknown): Config {
+        const dict = this.#readDict(value, "", ["targets", "agent", "watchAgent", "operations", "reconnect",
+            "exit", "scripts"]);
+
+        const config: Config = {
+            targets: this.#readArray(dict.targets, "targets", this.#readTarget),
+        };
+        if (dict.agent !== undefined) {
+            config.agent = this.#readAgentOptions(dict.agent, "agent");
+        }
+        if (dict.watchAgent !== undefined) {
+            config.watchAgent = this.#readBoolean(dict.watchAgent, "watchAgent");
+        }
+        if (dict.operations !== undefined) {
+            config.operations = this.#readOperationPolicies(dict.operations, "operations");
+        }
+        if (dict.reconnect !== undefined) {
+            config.reconnect = this.#readReconnectPolicy(dict.reconnect, "reconnect");
+        }
+        if (dict.exit !== undefined) {
+            config.exit = this.#readExitConditions(dict.exit, "exit");
+        }
+        if (dict.scripts !== undefined) {
+            config.scripts = this.#readScripts(dict.scripts, "scripts");
+        }
+
+        return config;
+    }
+
+    public readTarget(value: unknown): Target {
+        return this.#readTarget(value, "");
+    }
+
+    #readTarget = (value: unknown, location: string): Target => {
+        const dict = this.#readDict(value, location, ["device", "processes", "agent", "children", "scripts"]);
+
+        const target: Target = {
+            device: (dict.device !== undefined)
+                ? this.#readTargetDevice(dict.device, join(location, "device"))
+                : { kind: "local" },
+            processes: this.#readArray(dict.processes, join(location, "processes"), this.#readTargetProcess),
+        };
+        if (dict.agent !== undefined) {
+            target.agent = this.#readAgentOptions(dict.agent, join(location, "agent"));
+        }
+        if (dict.children !== undefined) {
+            target.children = this.#readChildPolicy(dict.children, join(location, "children"));
+        }
+        if (dict.scripts !== undefined) {
+            target.scripts = this.#readScripts(dict.scripts, join(location, "scripts"));
+        }
+
+        return target;
+    };
+
+    #readScripts(value: unknown, location: string): ScriptOptions[] {
+        const scripts = this.#readArray(value, location, this.#readScript);
+
+        scripts.forEach(({ name }, index) => {
+            if (scripts.findIndex(s => s.name === name) !== index) {
+                this.#fail(`${location}[${index}].name`, `duplicate script "${name}"`);
+            }
+        });
+
+        return scripts;
+    }
+
+    #readScript = (value: unknown, location: string): ScriptOptions => {
+        const dict = this.#readDict(value, location, ["name", "source", "runtime", "parameters"]);
+
+        const name = this.#readString(dict.name, `${location}.name`);
+        if (!/^[\w.-]+$/.test(name)) {
+            this.#fail(`${location}.name`, "expected only letters, digits, \"_\", \".\" and \"-\"");
+        }
+        if (name === agentScriptName) {
+            this.#fail(`${location}.name`, `"${agentScriptName}" is reserved for the agent`);
+        }
+
+        const script: ScriptOptions = {
+            name,
+            source: path.resolve(this.#baseDir, this.#readString(dict.source, `${location}.source`)),
+        };
+        if (dict.runtime !== undefined) {
+            script.runtime = this.#readEnum<AgentRuntime>(dict.runtime, `${location}.runtime`, ["default", "qjs", "v8"]);
+        }
+        if (dict.parameters !== undefined) {
+            script.parameters = this.#readDict(dict.parameters, `${location}.parameters`);
+        }
+
+        return script;
+    };
+
+    #readChildPolicy(value: unknown, location: string): ChildPolicy {
+        if (typeof value === "boolean") {
+            return { enabled: value };
+        }
+
+        const dict = this.#readDict(value, location, ["enabled", "maxDepth", "origins", "include", "exclude"]);
+
+        const policy: ChildPolicy = {};
+        if (dict.enabled !== undefined) {
+            policy.enabled = this.#readBoolean(dict.enabled, `${location}.enabled`);
+        }
+        if (dict.maxDepth !== undefined) {
+            policy.maxDepth = this.#readNumber(dict.maxDepth, `${location}.maxDepth`, true);
+        }
+        if (dict.origins !== undefined) {
+            policy.origins = this.#readArray(dict.origins, `${location}.origins`,
+                (v, l) => this.#readEnum<ChildOrigin>(v, l, ["fork", "exec", "spawn"]));
+        }
+        if (dict.include !== undefined) {
+            policy.include = this.#readArray(dict.include, `${location}.include`, this.#readProcessMatcher);
+        }
+        if (dict.exclude !== undefined) {
+            policy.exclude = this.#readArray(dict.exclude, `${location}.exclude`, this.#readProcessMatcher);
+        }
+
+        return policy;
+    }
+
+    #readAgentOptions(value: unknown, location: string): AgentOptions {
+        const dict = this.#readDict(value, location, ["source", "runtime", "parameters", "trace", "watchModules"]);
+
+        const options: AgentOptions = {};
+        if (dict.source !== undefined) {
+            options.source = path.resolve(this.#baseDir, this.#readString(dict.source, `${location}.source`));
+        }
+        if (dict.runtime !== undefined) {
+            options.runtime = this.#readEnum<AgentRuntime>(dict.runtime, `${location}.runtime`, ["default", "qjs", "v8"]);
+        }
+        if (dict.parameters !== undefined) {
+            options.parameters = this.#readDict(dict.parameters, `${location}.parameters`);
+        }
+        if (dict.trace !== undefined) {
+            options.trace = this.#readArray(dict.trace, `${location}.trace`, this.#readTraceSpec);
+        }
+        if (dict.watchModules !== undefined) {
+            options.watchModules = this.#readBoolean(dict.watchModules, `${location}.watchModules`);
+        }
+
+        return options;
+    }
+
+    #readTraceSpec = (value: unknown, location: string): TraceSpec => {
+        const dict = this.#readDict(value, location, ["kind", "pattern", "args", "retval", "backtrace"]);
+
+        const spec: TraceSpec = {
+            kind: (dict.kind !== undefined)
+                ? this.#readEnum<TraceSpec["kind"]>(dict.kind, `${location}.kind`, ["include", "exclude"])
+                : "include",
+            pattern: this.#readString(dict.pattern, `${location}.pattern`),
+        };
+        if (dict.args !== undefined) {
+            spec.args = this.#readArray(dict.args, `${location}.args`, (v, l) => this.#readEnum(v, l, valueFormats));
+        }
+        if (dict.retval !== undefined) {
+            spec.retval = this.#readEnum(dict.retval, `${location}.retval`, valueFormats);
+        }
+        if (dict.backtrace !== undefined) {
+            spec.backtrace = this.#readBoolean(dict.backtrace, `${location}.backtrace`);
+        }
+
+        return spec;
+    };
+
+    #readOperationPolicies(value: unknown, location: string): OperationPolicies {
+        const dict = this.#readDict(value, location, ["default", ...operationKinds]);
+
+        const policies: OperationPolicies = {};
+        for (const [kind, policy] of Object.entries(dict)) {
+            policies[kind as keyof OperationPolicies] = this.#readOperationPolicy(policy, join(location, kind));
+        }
+        return policies;
+    }
+
+    #readOperationPolicy(value: unknown, location: string): OperationPolicy {
+        const dict = this.#readDict(value, location, ["timeout", "retries", "retryDelay", "backoff"]);
+
+        const policy: OperationPolicy = {};
+        if (dict.timeout !== undefined) {
+            policy.timeout = this.#readNumber(dict.timeout, `${location}.timeout`);
+        }
+        if (dict.retries !== undefined) {
+            policy.retries = this.#readNumber(dict.retries, `${location}.retries`, true);
+        }
+        if (dict.retryDelay !== undefined) {
+            policy.retryDelay = this.#readNumber(dict.retryDelay, `${location}.retryDelay`);
+        }
+        if (dict.backoff !== undefined) {
+            policy.backoff = this.#readNumber(dict.backoff, `${location}.backoff`);
+        }
+
+        return policy;
+    }
+
+    #readReconnectPolicy(value: unknown, location: string): ReconnectPolicy {
+        const dict = this.#readDict(value, location, ["attempts", "delay", "backoff"]);
+
+        const policy: ReconnectPolicy = {};
+        if (dict.attempts !== undefined) {
+            policy.attempts = this.#readNumber(dict.attempts, `${location}.attempts`, true);
+        }
+        if (dict.delay !== undefined) {
+            policy.delay = this.#readNumber(dict.delay, `${location}.delay`);
+        }
+        if (dict.backoff !== undefined) {
+            policy.backoff = this.#readNumber(dict.backoff, `${location}.backoff`);
+        }
+
+        return policy;
+    }
+
+    #readTargetDevice(value: unknown, location: string): TargetDevice {
+        const kind = this.#readKind(value, location, ["local", "usb", "remote", "by-host", "by-id"]);
+
+        switch (kind) {
+            case "local":
+            case "usb":
+            case "remote":
+                this.#readDict(value, location, ["kind"]);
+                return { kind };
+            case "by-host": {
+                const dict = this.#readDict(value, location, ["kind", "host"]);
+                return { kind, host: this.#readString(dict.host, `${location}.host`) };
+            }
+            case "by-id": {
+                const dict = this.#readDict(value, location, ["kind", "id"]);
+                return { kind, id: this.#readString(dict.id, `${location}.id`) };
+            }
+        }
+    }
+
+    #readTargetProcess = (value: unknown, location: string): TargetProcess => {
+        const kind = this.#readKind(value, location,
+            ["spawn", "by-name", "all-by-name", "any-by-name", "by-ids", "by-gating", "by-frontmost", "matching"]);
+
+        switch (kind) {
+            case "spawn":
+                return this.#readTargetProcessSpawn(value, location);
+            case "by-name":
+            case "any-by-name":
+            case "by-gating": {
+                const dict = this.#readDict(value, location, ["kind", "name"]);
+                return { kind, name: this.#readString(dict.name, `${location}.name`) };
+            }
+            case "all-by-name": {
+                const dict = this.#readDict(value, location, ["kind", "name", "watch", "maxMatches"]);
+                const target: TargetProcessAllByName = { kind, name: this.#readString(dict.name, `${location}.name`) };
+                if (dict.watch !== undefined) {
+                    target.watch = this.#readBoolean(dict.watch, `${location}.watch`);
+                }
+                if (dict.maxMatches !== undefined) {
+                    target.maxMatches = this.#readMaxMatches(dict.maxMatches, `${location}.maxMatches`);
+                }
+                return target;
+            }
+            case "by-ids": {
+                const dict = this.#readDict(value, location, ["kind", "ids"]);
+                const ids = this.#readArray(dict.ids, `${location}.ids`, this.#readPid);
+                if (ids.length === 0) {
+                    this.#fail(`${location}.ids`, "expected at least one PID");
+                }
+                return { kind, ids };
+            }
+            case "by-frontmost":
+                this.#readDict(value, location, ["kind"]);
+                return { kind };
+            case "matching":
+                return this.#readTargetProcessMatching(value, location);
+        }
+    };
+
+    #readTargetProcessMatching(value: unknown, location: string): TargetProcessMatching {
+        const dict = this.#readDict(value, location, ["kind", "mode", "include", "exclude", "watch", "maxMatches"]);
+
+        const target: TargetProcessMatching = {
+            kind: "matching",
+            mode: (dict.mode !== undefined)
+                ? this.#readEnum<MatchingMode>(dict.mode, `${location}.mode`, ["all", "any", "gating"])
+                : "all",
+            include: this.#readArray(dict.include, `${location}.include`, this.#readProcessMatcher),
+        };
+        if (dict.exclude !== undefined) {
+            target.exclude = this.#readArray(dict.exclude, `${location}.exclude`, this.#readProcessMatcher);
+        }
+        if (dict.watch !== undefined) {
+            target.watch = this.#readBoolean(dict.watch, `${location}.watch`);
+        }
+        if (dict.maxMatches !== undefined) {
+            target.maxMatches = this.#readMaxMatches(dict.maxMatches, `${location}.maxMatches`);
+        }
+
+        if (target.include.length === 0 && (target.exclude ?? []).length === 0) {
+            this.#fail(location, "expected at least one matcher in include or exclude");
+        }
+
+        return target;
+    }
+
+    #readProcessMatcher = (value: unknown, location: string): ProcessMatcher => {
+        const dict = this.#readDict(value, location, ["name", "path", "identifier", "user", "ppid", "parameters"]);
+
+        const matcher: ProcessMatcher = {};
+        for (const field of ["name", "path", "identifier", "user"] as const) {
+            if (dict[field] !== undefined) {
+                matcher[field] = this.#readPattern(dict[field], `${location}.${field}`);
+            }
+        }
+        if (dict.ppid !== undefined) {
+            matcher.ppid = this.#readPid(dict.ppid, `${location}.ppid`);
+        }
+        if (dict.parameters !== undefined) {
+            const parameters: { [name: string]: string } = {};
+            for (const [name, pattern] of Object.entries(this.#readDict(dict.parameters, `${location}.parameters`))) {
+                parameters[name] = this.#readPattern(pattern, join(`${location}.parameters`, name));
+            }
+            matcher.parameters = parameters;
+        }
+
+        if (Object.keys(matcher).length === 0) {
+            this.#fail(location, "expected at least one field to match on");
+        }
+
+        return matcher;
+    };
+
+    #readPattern(value: unknown, location: string): string {
+        const pattern = this.#readString(value, location);
+
+        try {
+            compilePattern(pattern);
+        } catch (e) {
+            this.#fail(location, `invalid pattern: ${(e as Error).message}`);
+        }
+
+        return pattern;
+    }
+
+    #readTargetProcessSpawn(value: unknown, location: string): TargetProcessSpawn {
+        const dict = this.#readDict(value, location, ["kind", "program", "argv", "env", "envp", "cwd", "stdio", "aux"]);
+
+        const target: TargetProcessSpawn = {
+            kind: "spawn",
+            program: this.#readString(dict.program, `${location}.program`),
+        };
+        if (dict.argv !== undefined) {
+            target.argv = this.#readArray(dict.argv, `${location}.argv`, (v, l) => this.#readString(v, l, true));
+        }
+        if (dict.env !== undefined) {
+            target.env = this.#readEnvironment(dict.env, `${location}.env`);
+        }
+        if (dict.envp !== undefined) {
+            target.envp = this.#readEnvironment(dict.envp, `${location}.envp`);
+        }
+        if (dict.cwd !== undefined) {
+            target.cwd = this.#readString(dict.cwd, `${location}.cwd`);
+        }
+        if (dict.stdio !== undefined) {
+            target.stdio = this.#readEnum<StdioMode>(dict.stdio, `${location}.stdio`, ["inherit", "pipe"]);
+        }
+        if (dict.aux !== undefined) {
+            target.aux = this.#readDict(dict.aux, `${location}.aux`);
+        }
+
+        return target;
+    }
+
+    #readEnvironment(value: unknown, location: string): Environment {
+        const dict = this.#readDict(value, location);
+
+        const env: Environment = {};
+        for (const [name, val] of Object.entries(dict)) {
+            env[name] = (typeof val === "number" || typeof val === "boolean")
+                ? String(val)
+                : this.#readString(val, join(location, name), true);
+        }
+        return env;
+    }
+
+    #readPid = (value: unknown, location: string): number => {
+        if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+            this.#fail(location, `expected a PID, got ${describe(value)}`);
+        }
+        return value;
+    };
+
+    #readMaxMatches(value: unknown, location: string): number {
+        if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+            this.#fail(location, `expected a positive integer, got ${describe(value)}`);
+        }
+        return value;
+    }
+
+    #readEnum<K extends string>(value: unknown, location: string, choices: K[]): K {
+        if (!choices.includes(value as K)) {
+            this.#fail(location, `expected one of: ${choices.map(c => `"${c}"`).join(", ")}, got ${describe(value)}`);
+        }
+
+        return value as K;
+    }
+
+    #readKind<K extends string>(value: unknown, location: string, kinds: K[]): K {
+        const kind = this.#readDict(value, location).kind;
+        const kindLocation = join(location, "kind");
+
+        if (kind === undefined) {
+            this.#fail(kindLocation, `missing, expected one of: ${kinds.map(k => `"${k}"`).join(", ")}`);
+        }
+        if (!kinds.includes(kind as K)) {
+            this.#fail(kindLocation, `expected one of: ${kinds.map(k => `"${k}"`).join(", ")}, got ${describe(kind)}`);
+        }
+
+        return kind as K;
+    }
+
+    #readDict(value: unknown, location: string, allowedKeys?: string[]): Dict {
+        if (typeof value !== "object" || value === null || Array.isArray(value)) {
+            this.#fail(location, `expected an object, got ${describe(value)}`);
+        }
+
+        const dict = value as Dict;
+
+        if (allowedKeys !== undefined) {
+            for (const key of Object.keys(dict)) {
+                if (!allowedKeys.includes(key)) {
+                    this.#fail(join(location, key), "unknown property");
+                }
+            }
+        }
+
+        return dict;
+    }
+
+    #readArray<T>(value: unknown, location: string, readElement: (value: unknown, location: string) => T): T[] {
+        if (value === undefined) {
+            return [];
+        }
+        if (!Array.isArray(value)) {
+            this.#fail(location, `expected an array, got ${describe(value)}`);
+        }
+
+        return value.map((element, index) => readElement(element, `${location}[${index}]`));
+    }
+
+    #readExitConditions(value: unknown, location: string): ExitConditions {
+        const dict = this.#readDict(value, location, ["duration", "processExit", "messages", "completion"]);
+
+        const conditions: ExitConditions = {};
+        if (dict.duration !== undefined) {
+            conditions.duration = this.#readNumber(dict.duration, `${location}.duration`);
+        }
+        if (dict.processExit !== undefined) {
+            conditions.processExit = (typeof dict.processExit === "number")
+                ? this.#readNumber(dict.processExit, `${location}.processExit`, true)
+                : this.#readPattern(dict.processExit, `${location}.processExit`);
+        }
+        if (dict.messages !== undefined) {
+            conditions.messages = this.#readMessageCondition(dict.messages, `${location}.messages`);
+        }
+        if (dict.completion !== undefined) {
+            conditions.completion = this.#readBoolean(dict.completion, `${location}.completion`);
+        }
+
+        return conditions;
+    }
+
+    #readMessageCondition(value: unknown, location: string): MessageCondition {
+        const dict = this.#readDict(value, location, ["count", "match"]);
+
+        const condition: MessageCondition = {};
+        if (dict.count !== undefined) {
+            condition.count = this.#readNumber(dict.count, `${location}.count`, true);
+        }
+        if (dict.match !== undefined) {
+            const match: { [path: string]: string } = {};
+            for (const [path, pattern] of Object.entries(this.#readDict(dict.match, `${location}.match`))) {
+                match[path] = this.#readPattern(pattern, join(`${location}.match`, path));
+            }
+            condition.match = match;
+        }
+
+        return condition;
+    }
+
+    #readNumber(value: unknown, location: string, integer: boolean = false): number {
+        if (typeof value !== "number" || !Number.isFinite(value) || value < 0 || (integer && !Number.isInteger(value))) {
+            this.#fail(location, `expected a non-negative ${integer ? "integer" : "number"}, got ${describe(value)}`);
+        }
+
+        return value;
+    }
+
+    #readBoolean(value: unknown, location: string): boolean {
+        if (typeof value !== "boolean") {
+            this.#fail(location, `expected a boolean, got ${describe(value)}`);
+        }
+
+        return value;
+    }
+
+    #readString(value: unknown, location: string, allowEmpty: boolean = false): string {
+        if (value === undefined) {
+            this.#fail(location, "missing, expected a string");
+        }
+        if (typeof value !== "string" || (value.length === 0 && !allowEmpty)) {
+            this.#fail(location, `expected a${allowEmpty ? "" : " non-empty"} string, got ${describe(value)}`);
+        }
+
+        return value;
+    }
+
+    #fail(location: string, reason: string): never {
+        throw new ConfigError(this.#source, location, reason);
+    }
+}
+
+function join(location: string, key: string): string {
+    return (location !== "") ? `${location}.${key}` : key;
+}
+
+function describe(value: unknown): string {
+    if (value === null) {
+        return "null";
+    }
+    if (Array.isArray(value)) {
+        return "an array";
+    }
+    switch (typeof value) {
+        case "string":
+            return JSON.stringify(value);
+        case "number":
+        case "boolean":
+            return String(value);
+        case "object":
+            return "an object";
+        default:
+            return typeof value;
+    }
+}
@@ -1,10 +1,140 @@
+import { AgentParameters, TraceSpec } from "./agent/interfaces.js";
+
 export interface Config {
     targets: Target[];
+    agent?: AgentOptions;
+    watchAgent?: boolean;
+    operations?: OperationPolicies;
+    reconnect?: ReconnectPolicy;
+    exit?: ExitConditions;
+    scripts?: ScriptOptions[];
 }
 
 export interface Target {
     device: TargetDevice;
     processes: TargetProcess[];
+    agent?: AgentOptions;
+    children?: ChildPolicy;
+
+    /**
+     * Loaded after the scripts of the config, replacing any of the same name.
+     */
+    scripts?: ScriptOptions[];
+}
+
+export interface AgentOptions {
+    source?: string;
+    runtime?: AgentRuntime;
+    parameters?: AgentParameters;
+
+    /**
+     * Functions to trace once the agent is initialized, applied in order.
+     */
+    trace?: TraceSpec[];
+
+    /**
+     * Whether to report modules loaded after the agent is initialized.
+     */
+    watchModules?: boolean;
+}
+
+export type AgentRuntime = "default" | "qjs" | "v8";
+
+/**
+ * A script loaded into each process after the agent, on the same session,
+ * e.g. a separately built module of hooks. Like the agent, it implements
+ * `init()` of `AgentApi`.
+ */
+export interface ScriptOptions {
+    /**
+     * Identifies the script, with "agent" referring to the agent itself.
+     */
+    name: string;
+    source: string;
+    runtime?: AgentRuntime;
+    parameters?: AgentParameters;
+}
+
+export interface ChildPolicy {
+    enabled?: boolean;
+    maxDepth?: number;
+    origins?: ChildOrigin[];
+    include?: ProcessMatcher[];
+    exclude?: ProcessMatcher[];
+}
+
+export type ChildOrigin = "fork" | "exec" | "spawn";
+
+export type OperationPolicies = { [kind in OperationKind | "default"]?: OperationPolicy };
+
+export type OperationKind =
+    | "get-device"
+    | "load-agent"
+    | "spawn"
+    | "resolve"
+    | "wait"
+    | "attach"
+    | "enable-child-gating"
+    | "create-script"
+    | "load-script"
+    | "init"
+    | "start-tracing"
+    | "watch-modules"
+    | "watch-exit"
+    | "scan-memory"
+    | "dump-memory"
+    | "resume"
+    | "unload-script"
+    | "detach"
+    ;
+
+export interface OperationPolicy {
+    timeout?: number;
+    retries?: number;
+    retryDelay?: number;
+    backoff?: number;
+}
+
+export interface ReconnectPolicy {
+    attempts?: number;
+    delay?: number;
+    backoff?: number;
+}
+
+/**
+ * Ends the run as soon as any of the conditions is met.
+ */
+export interface ExitConditions {
+    /**
+     * Milliseconds to run for at most.
+     */
+    duration?: number;
+
+    /**
+     * PID or name pattern of a process to run until it exits. Its exit status
+     * is that of the run, if reported by its agent.
+     */
+    processExit?: number | string;
+
+    messages?: MessageCondition;
+
+    /**
+     * Whether to end once an agent's `whenComplete()` RPC returns.
+     */
+    completion?: boolean;
+}
+
+export interface MessageCondition {
+    /**
+     * Number of matching agent messages to end after, defaulting to 1.
+     */
+    count?: number;
+
+    /**
+     * Patterns that payload fields, given as dot-separated paths, must match,
+     * or a predicate when configured programmatically.
+     */
+    match?: { [path: string]: string } | ((payload: any) => boolean);
 }
 
 export type TargetDevice =
@@ -23,6 +153,7 @@ export type TargetProcess =
     | TargetProcessById
     | TargetProcessByGating
     | TargetProcessByFrontmost
+    | TargetProcessMatching
     ;
 
 export interface TargetDeviceLocal {
@@ -50,8 +181,20 @@ export interface TargetDeviceById {
 export interface TargetProcessSpawn {
     kind: "spawn";
     program: string;
+    argv?: string[];
+    env?: Environment;
+    envp?: Environment;
+    cwd?: string;
+    stdio?: StdioMode;
+    aux?: AuxOptions;
 }
 
+export type Environment = { [name: string]: string };
+
+export type StdioMode = "inherit" | "pipe";
+
+export type AuxOptions = { [name: string]: unknown };
+
 export interface TargetProcessByName {
     kind: "by-name";
     name: string;
@@ -60,6 +203,12 @@ export interface TargetProcessByName {
 export interface TargetProcessAllByName {
     kind: "all-by-name";
     name: string;
+    watch?: boolean;
+    /**
+     * Number of processes to attach to, counting those already running, before
+     * no longer watching for new ones.
+     */
+    maxMatches?: number;
 }
 
 export interface TargetProcessAnyByName {
@@ -80,3 +229,27 @@ export interface TargetProcessByGating {
 export interface TargetProcessByFrontmost {
     kind: "by-frontmost";
 }
+
+export interface TargetProcessMatching {
+    kind: "matching";
+    mode: MatchingMode;
+    include: ProcessMatcher[];
+    exclude?: ProcessMatcher[];
+    watch?: boolean;
+    /**
+     * Number of processes to attach to, counting those already running, before
+     * no longer watching for new ones.
+     */
+    maxMatches?: number;
+}
+
+export type MatchingMode = "all" | "any" | "gating";
+
+export interface ProcessMatcher {
+    name?: string;
+    path?: string;
+    identifier?: string;
+    user?: string;
+    ppid?: number;
+    parameters?: { [name: string]: string };
+}
@@ -0,0 +1,507 @@
+import { MemoryScan, ModuleInfo, TracedCall } from "./agent/interfaces.js";
+import {
+    AgentIdentity,
+    Application,
+    Delegate,
+    ProcessExit,
+    ScriptError,
+    StopReason,
+} from "./application.js";
+import { ConfigError, parseTarget } from "./config-file.js";
+import { ForwardingDelegate } from "./forwarding-delegate.js";
+import { stringToPattern } from "./memory.js";
+import { Operation } from "./operation.js";
+import { RunSummary } from "./statistics.js";
+
+import { randomBytes, timingSafeEqual } from "crypto";
+import { LogLevel, SessionDetachReason } from "frida";
+import * as fs from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { WebSocket, WebSocketServer } from "ws";
+
+const maxRequestSize = 1024 * 1024;
+
+const loopbackHosts = ["localhost", "127.0.0.1", "::1"];
+
+export interface ControlServerOptions {
+    host?: string;
+    port?: number;
+    socket?: string;
+
+    /**
+     * Token that clients must pass as `Authorization: Bearer TOKEN`, or as
+     * the `token` query parameter, randomly generated unless given.
+     */
+    token?: string;
+}
+
+type ControlEvent = { type: string, [key: string]: any };
+
+/**
+ * Serves a local HTTP API for observing and steering an Application, with
+ * events streamed to WebSocket clients connected to `/events`. Events are
+ * also forwarded to the wrapped delegate.
+ *
+ * As the API can spawn programs and load scripts, every request must carry
+ * the server's token, name a loopback host unless served on a UNIX socket,
+ * and come from a loopback origin if from a browser. Request bodies must be
+ * `application/json`, which pages of other origins can't send without CORS.
+ */
+export class ControlServer extends ForwardingDelegate {
+    #options: ControlServerOptions;
+    #token: string;
+    #app: Application | null = null;
+
+    #server: http.Server;
+    #wss: WebSocketServer;
+
+    constructor(options: ControlServerOptions, delegate: Delegate) {
+        super(delegate);
+
+        if (options.host !== undefined && !isLoopbackHost(options.host)) {
+            throw new Error(`Control API must be served on a loopback host, not "${options.host}"`);
+        }
+
+        this.#options = options;
+        this.#token = options.token ?? randomBytes(16).toString("hex");
+
+        this.#server = http.createServer(this.#onRequest);
+        this.#wss = new WebSocketServer({
+            server: this.#server,
+            path: "/events",
+            verifyClient: ({ req }, done) => {
+                try {
+                    this.#authorize(req);
+                    done(true);
+                } catch (e) {
+                    const error = e as RequestError;
+                    done(false, error.status, error.message);
+                }
+            },
+        });
+    }
+
+    public get token(): string {
+        return this.#token;
+    }
+
+    public async start(app: Application): Promise<string> {
+        this.#app = app;
+
+        const server = this.#server;
+        const { socket } = this.#options;
+
+        if (socket !== undefined) {
+            removeStaleSocket(socket);
+        }
+
+        await new Promise<void>((resolve, reject) => {
+            server.once("error", reject);
+
+            const onListening = () => {
+                server.off("error", reject);
+                resolve();
+            };
+            if (socket !== undefined) {
+                server.listen(socket, onListening);
+            } else {
+                server.listen(this.#options.port ?? 0, this.#options.host ?? "127.0.0.1", onListening);
+            }
+        });
+
+        const address = server.address();
+        if (typeof address === "string") {
+            return address;
+        }
+        const { address: host, port } = address as AddressInfo;
+        return `http://${(host.includes(":") ? `[${host}]` : host)}:${port}`;
+    }
+
+    public async close(): Promise<void> {
+        for (const client of this.#wss.clients) {
+            client.terminate();
+        }
+        this.#wss.close();
+
+        await new Promise<void>(resolve => {
+            this.#server.close(() => resolve());
+        });
+
+        const { socket } = this.#options;
+        if (socket !== undefined) {
+            removeStaleSocket(socket);
+        }
+    }
+
+    public onProgress(operation: Operation): void {
+        super.onProgress(operation);
+
+        const { id, parentId, scope, description } = operation;
+
+        this.#broadcast({ type: "operation-started", id, parentId, scope, description });
+
+        operation.onceComplete(error => {
+            const [seconds, nanoseconds] = operation.elapsed;
+            this.#broadcast({
+                type: "operation-completed",
+                id,
+                parentId,
+                scope,
+                description,
+                elapsed: (seconds * 1e3) + (nanoseconds / 1e6),
+                attempts: operation.attempts,
+                status: operation.status,
+                error: (error !== undefined) ? error.message : null,
+            });
+        });
+    }
+
+    public onConsoleMessage(scope: string, level: LogLevel, text: string): void {
+        super.onConsoleMessage(scope, level, text);
+        this.#broadcast({ type: "log", scope, level, text });
+    }
+
+    public onOutput(scope: string, pid: number, fd: number, data: Buffer): void {
+        super.onOutput(scope, pid, fd, data);
+        this.#broadcast({ type: "output", scope, pid, fd, text: data.toString("utf-8") });
+    }
+
+    public onAgentMessage(agent: AgentIdentity, payload: any, data: Buffer | null): void {
+        super.onAgentMessage(agent, payload, data);
+
+        const { scope, pid, device } = agent;
+        this.#broadcast({
+            type: "message",
+            scope,
+            pid,
+            device,
+            payload,
+            data: (data !== null) ? data.toString("base64") : null,
+        });
+    }
+
+    public onAgentError(agent: AgentIdentity, error: ScriptError): void {
+        super.onAgentError(agent, error);
+
+        const { scope, pid, device } = agent;
+        this.#broadcast({ type: "agent-error", scope, pid, device, ...error });
+    }
+
+    public onTracedCalls(agent: AgentIdentity, calls: TracedCall[]): void {
+        super.onTracedCalls(agent, calls);
+
+        const { scope, pid, device } = agent;
+        for (const call of calls) {
+            this.#broadcast({ type: "call", scope, pid, device, ...call });
+        }
+    }
+
+    public onModulesLoaded(agent: AgentIdentity, modules: ModuleInfo[]): void {
+        super.onModulesLoaded(agent, modules);
+
+        const { scope, pid, device } = agent;
+        for (const module of modules) {
+            this.#broadcast({ type: "module-loaded", scope, pid, device, ...module });
+        }
+    }
+
+    public onAttached(agent: AgentIdentity): void {
+        super.onAttached(agent);
+        this.#broadcast({ type: "attached", ...agent });
+    }
+
+    public onDetached(agent: AgentIdentity, reason: SessionDetachReason, exit: ProcessExit | null): void {
+        super.onDetached(agent, reason, exit);
+
+        const { scope, pid, device } = agent;
+        this.#broadcast({ type: "detached", scope, pid, device, reason, exit });
+    }
+
+    public onReconnecting(device: string, attempt: number, maxAttempts: number): void {
+        super.onReconnecting(device, attempt, maxAttempts);
+        this.#broadcast({ type: "reconnecting", device, attempt, maxAttempts });
+    }
+
+    public onReconnected(device: string, attempts: number): void {
+        super.onReconnected(device, attempts);
+        this.#broadcast({ type: "reconnected", device, attempts });
+    }
+
+    public onStopped(reason: StopReason): void {
+        super.onStopped(reason);
+        this.#broadcast({ type: "stopped", ...reason });
+    }
+
+    public onSummary(summary: RunSummary): void {
+        super.onSummary(summary);
+        this.#broadcast({ type: "summary", ...summary });
+    }
+
+    #broadcast(event: ControlEvent): void {
+        const clients = this.#wss.clients;
+        if (clients.size === 0) {
+            return;
+        }
+
+        const message = JSON.stringify({ timestamp: new Date().toISOString(), ...event });
+        for (const client of clients) {
+            if (client.readyState === WebSocket.OPEN) {
+                client.send(message);
+            }
+        }
+    }
+
+    #onRequest = async (request: http.IncomingMessage, response: http.ServerResponse): Promise<void> => {
+        let status = 200;
+        let body: any;
+
+        try {
+            this.#authorize(request);
+            body = await this.#route(request);
+        } catch (e) {
+            const error = e as Error;
+            status = (error instanceof RequestError) ? error.status : 500;
+            body = { error: error.message };
+        }
+
+        const json = JSON.stringify(body ?? null);
+        response.writeHead(status, {
+            "Content-Type": "application/json",
+            "Content-Length": Buffer.byteLength(json),
+        });
+        response.end(json);
+    };
+
+    async #route(request: http.IncomingMessage): Promise<any> {
+        const app = this.#app;
+        if (app === null) {
+            throw new RequestError(503, "Not started");
+        }
+
+        const { pathname } = new URL(request.url ?? "/", "http://localhost");
+        const segments = pathname.split("/").filter(s => s.length !== 0).map(decodeURIComponent);
+        const route = `${request.method} /${segments.map((s, i) => isParameter(segments, i) ? "*" : s).join("/")}`;
+
+        switch (route) {
+            case "GET /devices":
+                return app.enumerateDevices();
+            case "GET /devices/*/processes":
+                return app.enumerateProcesses({ kind: "by-id", id: segments[1] }, wantsParameters(request));
+            case "GET /devices/*/applications":
+                return app.enumerateApplications({ kind: "by-id", id: segments[1] }, wantsParameters(request));
+            case "GET /controllers":
+                return app.listControllers();
+            case "GET /agents":
+                return app.listAgents();
+            case "GET /tree":
+                return app.getProcessTree();
+            case "POST /targets": {
+                let target;
+                try {
+                    target = parseTarget(await readJsonBody(request), "request");
+                } catch (e) {
+                    throw (e instanceof ConfigError) ? new RequestError(400, e.message) : e;
+                }
+                await app.addTarget(target);
+                return { ok: true };
+            }
+            case "DELETE /devices/*/processes/*": {
+                const pid = parseInt(segments[3], 10);
+                if (isNaN(pid)) {
+                    throw new RequestError(400, `Invalid PID "${segments[3]}"`);
+                }
+                await app.detach(segments[1], pid);
+                return { ok: true };
+            }
+            case "GET /agents/*/exports":
+                return app.listAgentExports(this.#getAgentScope(app, segments[1]));
+            case "POST /agents/*/exports/*": {
+                const args = await readJsonBody(request);
+                if (!Array.isArray(args)) {
+                    throw new RequestError(400, "Expected a JSON array of arguments");
+                }
+                const result = await app.callAgent(this.#getAgentScope(app, segments[1]), segments[3], args);
+                return { result: result ?? null };
+            }
+            case "GET /agents/*/ranges": {
+                const { searchParams } = new URL(request.url ?? "/", "http://localhost");
+                return app.enumerateRanges(this.#getAgentScope(app, segments[1]), searchParams.get("protection") ?? "r--");
+            }
+            case "POST /agents/*/scan":
+                return app.scanMemory(this.#getAgentScope(app, segments[1]), readMemoryScan(await readJsonBody(request)));
+            case "GET /agents/*/scripts":
+                return app.listScripts(this.#getAgentScope(app, segments[1]));
+            case "PUT /agents/*/scripts/*":
+                this.#getScriptScope(app, segments[1], segments[3]);
+                await app.loadScript(segments[1], segments[3]);
+                return { ok: true };
+            case "DELETE /agents/*/scripts/*":
+                this.#getScriptScope(app, segments[1], segments[3]);
+                await app.unloadScript(segments[1], segments[3]);
+                return { ok: true };
+            case "POST /agents/*/scripts/*/reload":
+                this.#getScriptScope(app, segments[1], segments[3]);
+                await app.reloadScript(segments[1], segments[3]);
+                return { ok: true };
+            case "GET /agents/*/scripts/*/exports":
+                return app.listAgentExports(this.#getScriptScope(app, segments[1], segments[3]));
+            case "POST /agents/*/scripts/*/exports/*": {
+                const args = await readJsonBody(request);
+                if (!Array.isArray(args)) {
+                    throw new RequestError(400, "Expected a JSON array of arguments");
+                }
+                const result = await app.callAgent(this.#getScriptScope(app, segments[1], segments[3]), segments[5], args);
+                return { result: result ?? null };
+            }
+            default:
+                throw new RequestError(404, `No route for ${request.method} ${pathname}`);
+        }
+    }
+
+    #getAgentScope(app: Application, scope: string): string {
+        if (!app.listAgents().some(agent => agent.scope === scope)) {
+            throw new RequestError(404, `No agent attached to ${scope}`);
+        }
+        return scope;
+    }
+
+    #authorize(request: http.IncomingMessage): void {
+        const { host, origin, authorization } = request.headers;
+
+        if (this.#options.socket === undefined && !this.#isAllowedHost(host)) {
+            throw new RequestError(403, "Host not allowed");
+        }
+        if (origin !== undefined && !this.#isAllowedOrigin(origin)) {
+            throw new RequestError(403, "Origin not allowed");
+        }
+
+        const { searchParams } = new URL(request.url ?? "/", "http://localhost");
+        const token = authorization?.match(/^Bearer (.+)$/)?.[1] ?? searchParams.get("token");
+        if (token === null || !isSameToken(token, this.#token)) {
+            throw new RequestError(401, "Missing or invalid token");
+        }
+    }
+
+    #isAllowedHost(host: string | undefined): boolean {
+        if (host === undefined) {
+            return false;
+        }
+
+        let hostname: string;
+        try {
+            hostname = new URL(`http://${host}`).hostname.replace(/^\[(.*)\]$/, "$1");
+        } catch (e) {
+            return false;
+        }
+
+        return isLoopbackHost(hostname);
+    }
+
+    #isAllowedOrigin(origin: string): boolean {
+        let url: URL;
+        try {
+            url = new URL(origin);
+        } catch (e) {
+            return false;
+        }
+
+        return (url.protocol === "http:" || url.protocol === "https:") && this.#isAllowedHost(url.host);
+    }
+
+    #getScriptScope(app: Application, scope: string, name: string): string {
+        const script = app.listScripts(this.#getAgentScope(app, scope)).find(s => s.name === name);
+        if (script === undefined) {
+            throw new RequestError(404, `No script named "${name}" in ${scope}`);
+        }
+        return script.scope;
+    }
+}
+
+export function isLoopbackHost(hostname: string): boolean {
+    return loopbackHosts.includes(hostname) || /^127\.\d+\.\d+\.\d+$/.test(hostname);
+}
+
+class RequestError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = "RequestError";
+    }
+}
+
+function isParameter(segments: string[], index: number): boolean {
+    switch (segments[0]) {
+        case "devices":
+            return index === 1 || index === 3;
+        case "agents":
+            return index === 1 ||
+                (index === 3 && (segments[2] === "exports" || segments[2] === "scripts")) ||
+                (index === 5 && segments[2] === "scripts" && segments[4] === "exports");
+        default:
+            return false;
+    }
+}
+
+function readMemoryScan(body: unknown): MemoryScan {
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+        throw new RequestError(400, "Expected a JSON object");
+    }
+    const { pattern, string, protection, maxMatches } = body as { [key: string]: unknown };
+
+    if (typeof pattern !== "string" && typeof string !== "string") {
+        throw new RequestError(400, "Expected a pattern or string to scan for");
+    }
+
+    const scan: MemoryScan = {
+        pattern: (typeof pattern === "string") ? pattern : stringToPattern(string as string),
+        protection: (typeof protection === "string") ? protection : "r--",
+    };
+    if (typeof maxMatches === "number") {
+        scan.maxMatches = maxMatches;
+    }
+    return scan;
+}
+
+function wantsParameters(request: http.IncomingMessage): boolean {
+    const { searchParams } = new URL(request.url ?? "/", "http://localhost");
+    return searchParams.get("parameters") === "true";
+}
+
+async function readJsonBody(request: http.IncomingMessage): Promise<unknown> {
+    const contentType = request.headers["content-type"]?.split(";")[0].trim().toLowerCase();
+    if (contentType !== "application/json") {
+        throw new RequestError(415, "Expected Content-Type application/json");
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of request) {
+        size += chunk.length;
+        if (size > maxRequestSize) {
+            throw new RequestError(413, "Request too large");
+        }
+        chunks.push(chunk);
+    }
+
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+    } catch (e) {
+        throw new RequestError(400, `Invalid JSON: ${(e as Error).message}`);
+    }
+}
+
+function isSameToken(token: string, expected: string): boolean {
+    const a = Buffer.from(token);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function removeStaleSocket(socketPath: string): void {
+    try {
+        if (fs.statSync(socketPath).isSocket()) {
+            fs.unlinkSync(socketPath);
+        }
+    } catch (e) {
+    }
+}
@@ -0,0 +1,147 @@
+import { AgentIdentity, Delegate, ProcessExit, StopReason } from "./application.js";
+import { ExitConditions } from "./config.js";
+import { ForwardingDelegate } from "./forwarding-delegate.js";
+import { compilePattern } from "./process-filter.js";
+
+import { LogLevel, SessionDetachReason } from "frida";
+
+/**
+ * Gives access to the agents whose completion is waited for.
+ */
+export interface CompletionSource {
+    /**
+     * Lists the exports of the agent, or none if they're unknown.
+     */
+    listExports(agent: AgentIdentity): Promise<string[]>;
+    waitForCompletion(agent: AgentIdentity): Promise<void>;
+}
+
+/**
+ * Watches the events passed to the wrapped delegate for the exit conditions
+ * of a run, calling `onMet` with the reason once the first is met.
+ */
+export class ExitMonitor extends ForwardingDelegate {
+    #conditions: ExitConditions;
+    #onMet: (reason: StopReason) => void;
+    #completionSource: CompletionSource;
+
+    #timer: NodeJS.Timeout | null = null;
+    #messagePredicate: ((payload: any) => boolean) | null;
+    #numMatchingMessages = 0;
+    #processPredicate: ((agent: AgentIdentity) => boolean) | null;
+
+    constructor(conditions: ExitConditions, delegate: Delegate, onMet: (reason: StopReason) => void,
+            completionSource: CompletionSource) {
+        super(delegate);
+
+        this.#conditions = conditions;
+        this.#onMet = onMet;
+        this.#completionSource = completionSource;
+
+        const { messages, processExit } = conditions;
+        this.#messagePredicate = (messages !== undefined) ? compileMessagePredicate(messages.match ?? {}) : null;
+        this.#processPredicate = (processExit !== undefined) ? compileProcessPredicate(processExit) : null;
+    }
+
+    public start(): void {
+        const { duration } = this.#conditions;
+        if (duration !== undefined) {
+            this.#timer = setTimeout(() => {
+                this.#onMet({ kind: "duration", description: `Ran for ${duration} ms`, exitStatus: null });
+            }, duration);
+        }
+    }
+
+    public stop(): void {
+        if (this.#timer !== null) {
+            clearTimeout(this.#timer);
+            this.#timer = null;
+        }
+    }
+
+    public onAgentMessage(agent: AgentIdentity, payload: any, data: Buffer | null): void {
+        super.onAgentMessage(agent, payload, data);
+
+        const predicate = this.#messagePredicate;
+        if (predicate !== null && predicate(payload)) {
+            const count = this.#conditions.messages!.count ?? 1;
+            this.#numMatchingMessages++;
+            if (this.#numMatchingMessages === count) {
+                this.#onMet({
+                    kind: "messages",
+                    description: `Received ${count} matching message${(count !== 1) ? "s" : ""}`,
+                    exitStatus: null,
+                });
+            }
+        }
+    }
+
+    public onAttached(agent: AgentIdentity): void {
+        super.onAttached(agent);
+
+        if (this.#conditions.completion) {
+            this.#awaitCompletion(agent).catch(() => {});
+        }
+    }
+
+    public onDetached(agent: AgentIdentity, reason: SessionDetachReason, exit: ProcessExit | null): void {
+        super.onDetached(agent, reason, exit);
+
+        const predicate = this.#processPredicate;
+        if (predicate !== null && exit !== null && predicate(agent)) {
+            const { status, crash } = exit;
+            let description = `${agent.scope} exited`;
+            if (status !== null) {
+                description += ` with status ${status}`;
+            } else if (crash !== null) {
+                description += ` after crashing: ${crash}`;
+            }
+            this.#onMet({ kind: "process-exit", description, exitStatus: status });
+        }
+    }
+
+    async #awaitCompletion(agent: AgentIdentity): Promise<void> {
+        const source = this.#completionSource;
+
+        const names = await source.listExports(agent);
+        if (names.length !== 0 && !names.includes("whenComplete")) {
+            this.delegate.onConsoleMessage(agent.scope, LogLevel.Warning,
+                "Agent does not implement whenComplete(), so can't end the run");
+            return;
+        }
+
+        await source.waitForCompletion(agent);
+        this.#onMet({ kind: "completion", description: `${agent.scope} reported completion`, exitStatus: null });
+    }
+}
+
+function compileMessagePredicate(match: { [path: string]: string } | ((payload: any) => boolean)):
+        (payload: any) => boolean {
+    if (typeof match === "function") {
+        return match;
+    }
+
+    const fields = Object.entries(match).map(([path, pattern]) => ({ path: path.split("."), regex: compilePattern(pattern) }));
+    return payload => fields.every(({ path, regex }) => {
+        let value = payload;
+        for (const key of path) {
+            if (typeof value !== "object" || value === null) {
+                return false;
+            }
+            value = value[key];
+        }
+        if (value === undefined) {
+            return false;
+        }
+        return regex.test((typeof value === "object") ? JSON.stringify(value) : String(value));
+    });
+}
+
+function compileProcessPredicate(processExit: number | string): (agent: AgentIdentity) => boolean {
+    if (typeof processExit === "number") {
+        return agent => agent.pid === processExit;
+    }
+
+    const regex = compilePattern(processExit);
+    return agent => regex.test(agent.name);
+}
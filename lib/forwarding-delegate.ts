@@ -0,0 +1,67 @@
+import { ModuleInfo, TracedCall } from "./agent/interfaces.js";
+import { AgentIdentity, Delegate, ProcessExit, ScriptError, StopReason } from "./application.js";
+import { Operation } from "./operation.js";
+import { RunSummary } from "./statistics.js";
+
+import { LogLevel, SessionDetachReason } from "frida";
+
+/**
+ * Passes every event on to the wrapped delegate, for delegates that act on
+ * some of them to extend, overriding just those.
+ */
+export class ForwardingDelegate implements Delegate {
+    constructor(protected readonly delegate: Delegate) {
+    }
+
+    public onProgress(operation: Operation): void {
+        this.delegate.onProgress(operation);
+    }
+
+    public onConsoleMessage(scope: string, level: LogLevel, text: string): void {
+        this.delegate.onConsoleMessage(scope, level, text);
+    }
+
+    public onOutput(scope: string, pid: number, fd: number, data: Buffer): void {
+        this.delegate.onOutput(scope, pid, fd, data);
+    }
+
+    public onAgentMessage(agent: AgentIdentity, payload: any, data: Buffer | null): void {
+        this.delegate.onAgentMessage(agent, payload, data);
+    }
+
+    public onAgentError(agent: AgentIdentity, error: ScriptError): void {
+        this.delegate.onAgentError(agent, error);
+    }
+
+    public onTracedCalls(agent: AgentIdentity, calls: TracedCall[]): void {
+        this.delegate.onTracedCalls(agent, calls);
+    }
+
+    public onModulesLoaded(agent: AgentIdentity, modules: ModuleInfo[]): void {
+        this.delegate.onModulesLoaded(agent, modules);
+    }
+
+    public onAttached(agent: AgentIdentity): void {
+        this.delegate.onAttached(agent);
+    }
+
+    public onDetached(agent: AgentIdentity, reason: SessionDetachReason, exit: ProcessExit | null): void {
+        this.delegate.onDetached(agent, reason, exit);
+    }
+
+    public onReconnecting(device: string, attempt: number, maxAttempts: number): void {
+        this.delegate.onReconnecting(device, attempt, maxAttempts);
+    }
+
+    public onReconnected(device: string, attempts: number): void {
+        this.delegate.onReconnected(device, attempts);
+    }
+
+    public onStopped(reason: StopReason): void {
+        this.delegate.onStopped(reason);
+    }
+
+    public onSummary(summary: RunSummary): void {
+        this.delegate.onSummary(summary);
+    }
+}
@@ -1,17 +1,150 @@
+import * as agentInterfaces from "./agent/interfaces.js";
 import * as application from "./application.js";
+import * as channel from "./channel.js";
 import * as config from "./config.js";
+import * as configFile from "./config-file.js";
+import * as controlServer from "./control-server.js";
+import * as forwardingDelegate from "./forwarding-delegate.js";
+import * as inventory from "./inventory.js";
+import * as memory from "./memory.js";
 import * as operation from "./operation.js";
+import * as processFilter from "./process-filter.js";
+import * as processTree from "./process-tree.js";
+import * as recording from "./recording.js";
+import * as statistics from "./statistics.js";
+import * as trace from "./trace.js";
 
 import * as frida from "frida";
 
 export type Application = application.Application;
 export const Application = application.Application;
 export type Delegate = application.Delegate;
+export type ForwardingDelegate = forwardingDelegate.ForwardingDelegate;
+export const ForwardingDelegate = forwardingDelegate.ForwardingDelegate;
+export type AgentIdentity = application.AgentIdentity;
+export type ScriptError = application.ScriptError;
+export type StopReason = application.StopReason;
+export type StopReasonKind = application.StopReasonKind;
+export type ProcessExit = application.ProcessExit;
+export type DeviceInfo = application.DeviceInfo;
+export type ProcessInfo = application.ProcessInfo;
+export type ApplicationInfo = application.ApplicationInfo;
+export type MemoryDump = application.MemoryDump;
+export type ScriptInfo = application.ScriptInfo;
+export type ControllerInfo = application.ControllerInfo;
+export type DeviceProcessTree = application.DeviceProcessTree;
+export const deviceDirectory = application.deviceDirectory;
+
+export type AgentApi = agentInterfaces.AgentApi;
+export type AgentParameters = agentInterfaces.AgentParameters;
+export type TraceSpec = agentInterfaces.TraceSpec;
+export type TracedCall = agentInterfaces.TracedCall;
+export type ValueFormat = agentInterfaces.ValueFormat;
+export type ModuleInventoryOptions = agentInterfaces.ModuleInventoryOptions;
+export type ModuleInfo = agentInterfaces.ModuleInfo;
+export type ExportInfo = agentInterfaces.ExportInfo;
+export type ImportInfo = agentInterfaces.ImportInfo;
+export type SymbolInfo = agentInterfaces.SymbolInfo;
+export type RangeInfo = agentInterfaces.RangeInfo;
+export type MemoryScan = agentInterfaces.MemoryScan;
+export type ScanMatch = agentInterfaces.ScanMatch;
+export type AgentEvents = agentInterfaces.AgentEvents;
+export type AgentEvent = agentInterfaces.AgentEvent;
+export type AgentCommands = agentInterfaces.AgentCommands;
+export type CommandRequest<K extends keyof AgentCommands> = agentInterfaces.CommandRequest<K>;
+export type CommandResponse<K extends keyof AgentCommands> = agentInterfaces.CommandResponse<K>;
+
+export type AgentChannel = channel.AgentChannel;
+export const AgentChannel = channel.AgentChannel;
+export type CommandTimeoutError = channel.CommandTimeoutError;
+export const CommandTimeoutError = channel.CommandTimeoutError;
+export const defaultCommandTimeout = channel.defaultCommandTimeout;
 
 export type Config = config.Config;
 export type Target = config.Target;
 export type TargetDevice = config.TargetDevice;
 export type TargetProcess = config.TargetProcess;
+export type TargetProcessSpawn = config.TargetProcessSpawn;
+export type TargetProcessAllByName = config.TargetProcessAllByName;
+export type TargetProcessMatching = config.TargetProcessMatching;
+export type MatchingMode = config.MatchingMode;
+export type ProcessMatcher = config.ProcessMatcher;
+export type AgentOptions = config.AgentOptions;
+export type AgentRuntime = config.AgentRuntime;
+export type ScriptOptions = config.ScriptOptions;
+export type ChildPolicy = config.ChildPolicy;
+export type ChildOrigin = config.ChildOrigin;
+export type Environment = config.Environment;
+export type StdioMode = config.StdioMode;
+export type AuxOptions = config.AuxOptions;
+export type OperationKind = config.OperationKind;
+export type OperationPolicy = config.OperationPolicy;
+export type OperationPolicies = config.OperationPolicies;
+export type ReconnectPolicy = config.ReconnectPolicy;
+export type ExitConditions = config.ExitConditions;
+export type MessageCondition = config.MessageCondition;
+
+export type ConfigFormat = configFile.ConfigFormat;
+export type ConfigError = configFile.ConfigError;
+export const ConfigError = configFile.ConfigError;
+export const loadConfig = configFile.loadConfig;
+export const parseConfig = configFile.parseConfig;
+export const parseTarget = configFile.parseTarget;
+export const mergeConfig = configFile.mergeConfig;
+export const mergeScripts = configFile.mergeScripts;
+export const agentScriptName = configFile.agentScriptName;
+export const operationKinds = configFile.operationKinds;
+export const valueFormats = configFile.valueFormats;
+
+export type ControlServer = controlServer.ControlServer;
+export const ControlServer = controlServer.ControlServer;
+export type ControlServerOptions = controlServer.ControlServerOptions;
+export const isLoopbackHost = controlServer.isLoopbackHost;
+
+export type ModuleSnapshotter = inventory.ModuleSnapshotter;
+export const ModuleSnapshotter = inventory.ModuleSnapshotter;
+export type ModuleSnapshot = inventory.ModuleSnapshot;
+export type SnapshotDiff = inventory.SnapshotDiff;
+export type ModuleChange = inventory.ModuleChange;
+export type SnapshotError = inventory.SnapshotError;
+export const SnapshotError = inventory.SnapshotError;
+export const loadSnapshot = inventory.loadSnapshot;
+export const diffSnapshots = inventory.diffSnapshots;
+
+export type MemoryInspector = memory.MemoryInspector;
+export const MemoryInspector = memory.MemoryInspector;
+export type MemoryInspection = memory.MemoryInspection;
+export const stringToPattern = memory.stringToPattern;
+
+export type ProcessFilter = processFilter.ProcessFilter;
+export const ProcessFilter = processFilter.ProcessFilter;
+export const parseMatcherSpec = processFilter.parseMatcherSpec;
+export const isMatcherSpec = processFilter.isMatcherSpec;
+export const compilePattern = processFilter.compilePattern;
+
+export type ProcessNode = processTree.ProcessNode;
+export type ProcessOrigin = processTree.ProcessOrigin;
+
+export type Recorder = recording.Recorder;
+export const Recorder = recording.Recorder;
+export type RecordingError = recording.RecordingError;
+export const RecordingError = recording.RecordingError;
+export type ReplayOptions = recording.ReplayOptions;
+export const replay = recording.replay;
+
+export type RunSummary = statistics.RunSummary;
+export type TargetSummary = statistics.TargetSummary;
+export type PhaseSummary = statistics.PhaseSummary;
+
+export type TraceExporter = trace.TraceExporter;
+export const TraceExporter = trace.TraceExporter;
 
 export type Operation = operation.Operation;
+export type OperationStatus = operation.OperationStatus;
+export type OperationTimeoutError = operation.OperationTimeoutError;
+export const OperationTimeoutError = operation.OperationTimeoutError;
+export type OperationCancelledError = operation.OperationCancelledError;
+export const OperationCancelledError = operation.OperationCancelledError;
 export type LogLevel = frida.LogLevel;
+export const LogLevel = frida.LogLevel;
+export type SessionDetachReason = frida.SessionDetachReason;
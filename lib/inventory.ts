@@ -0,0 +1,168 @@
+import { ModuleInfo, ModuleInventoryOptions } from "./agent/interfaces.js";
+import { AgentIdentity, Application, Delegate } from "./application.js";
+import { ForwardingDelegate } from "./forwarding-delegate.js";
+
+import { LogLevel } from "frida";
+import * as fs from "fs";
+import { readFile } from "fs/promises";
+import * as path from "path";
+
+export const snapshotFormat = "frida-tool-example-modules";
+export const snapshotVersion = 1;
+
+export interface ModuleSnapshot {
+    format: string;
+    version: number;
+    scope: string;
+    name: string;
+    pid: number;
+    device: string;
+    time: string;
+    modules: ModuleInfo[];
+}
+
+/**
+ * Differences between two snapshots, with modules told apart by name since
+ * their base addresses change from run to run.
+ */
+export interface SnapshotDiff {
+    added: ModuleInfo[];
+    removed: ModuleInfo[];
+    changed: ModuleChange[];
+}
+
+export interface ModuleChange {
+    name: string;
+    before: ModuleInfo;
+    after: ModuleInfo;
+
+    /**
+     * Names of exports only in one of the snapshots, empty unless both have
+     * exports listed.
+     */
+    exportsAdded: string[];
+    exportsRemoved: string[];
+}
+
+export class SnapshotError extends Error {
+    constructor(
+            public source: string,
+            public reason: string) {
+        super(`${source}: ${reason}`);
+        this.name = "SnapshotError";
+    }
+}
+
+/**
+ * Writes a snapshot of the modules loaded in each process attached to by the
+ * application, as `<name>-<pid>@<device>.json` in the given directory.
+ */
+export class ModuleSnapshotter extends ForwardingDelegate {
+    #directory: string;
+    #options: ModuleInventoryOptions;
+    #app: Application | null = null;
+
+    constructor(directory: string, options: ModuleInventoryOptions, delegate: Delegate) {
+        super(delegate);
+
+        this.#directory = directory;
+        this.#options = options;
+
+        fs.mkdirSync(directory, { recursive: true });
+    }
+
+    public start(app: Application): void {
+        this.#app = app;
+    }
+
+    public onAttached(agent: AgentIdentity): void {
+        super.onAttached(agent);
+
+        this.#snapshot(agent).then(
+            filePath => {
+                this.delegate.onConsoleMessage(agent.scope, LogLevel.Info, `Saved module snapshot to ${filePath}`);
+            },
+            error => {
+                this.delegate.onConsoleMessage(agent.scope, LogLevel.Warning,
+                    `Unable to snapshot modules: ${(error as Error).message}`);
+            });
+    }
+
+    async #snapshot(agent: AgentIdentity): Promise<string> {
+        const app = this.#app;
+        if (app === null) {
+            throw new Error("Not started");
+        }
+
+        const modules: ModuleInfo[] = await app.callAgent(agent.scope, "getModules", [this.#options]);
+
+        const { scope, name, pid, device } = agent;
+        const snapshot: ModuleSnapshot = {
+            format: snapshotFormat,
+            version: snapshotVersion,
+            scope,
+            name,
+            pid,
+            device,
+            time: new Date().toISOString(),
+            modules,
+        };
+
+        const filePath = path.join(this.#directory, `${name}-${pid}@${device}.json`.replace(/[^\w.@-]/g, "_"));
+        fs.writeFileSync(filePath, JSON.stringify(snapshot, null, 2) + "\n");
+        return filePath;
+    }
+}
+
+export async function loadSnapshot(filePath: string): Promise<ModuleSnapshot> {
+    let snapshot: ModuleSnapshot;
+    try {
+        snapshot = JSON.parse(await readFile(filePath, "utf-8"));
+    } catch (e) {
+        throw new SnapshotError(filePath, (e as Error).message);
+    }
+
+    if (typeof snapshot !== "object" || snapshot === null || snapshot.format !== snapshotFormat ||
+            !Array.isArray(snapshot.modules)) {
+        throw new SnapshotError(filePath, "Not a module snapshot");
+    }
+    if (snapshot.version > snapshotVersion) {
+        throw new SnapshotError(filePath, `Unsupported version ${snapshot.version}, expected at most ${snapshotVersion}`);
+    }
+
+    return snapshot;
+}
+
+export function diffSnapshots(before: ModuleSnapshot, after: ModuleSnapshot): SnapshotDiff {
+    const oldModules = new Map(before.modules.map(m => [m.name, m]));
+    const newModules = new Map(after.modules.map(m => [m.name, m]));
+
+    const diff: SnapshotDiff = {
+        added: after.modules.filter(m => !oldModules.has(m.name)),
+        removed: before.modules.filter(m => !newModules.has(m.name)),
+        changed: [],
+    };
+
+    for (const [name, oldModule] of oldModules) {
+        const newModule = newModules.get(name);
+        if (newModule === undefined) {
+            continue;
+        }
+
+        let exportsAdded: string[] = [];
+        let exportsRemoved: string[] = [];
+        if (oldModule.exports !== undefined && newModule.exports !== undefined) {
+            const oldExports = new Set(oldModule.exports.map(e => e.name));
+            const newExports = new Set(newModule.exports.map(e => e.name));
+            exportsAdded = Array.from(newExports).filter(e => !oldExports.has(e));
+            exportsRemoved = Array.from(oldExports).filter(e => !newExports.has(e));
+        }
+
+        if (oldModule.path !== newModule.path || oldModule.size !== newModule.size ||
+                exportsAdded.length !== 0 || exportsRemoved.length !== 0) {
+            diff.changed.push({ name, before: oldModule, after: newModule, exportsAdded, exportsRemoved });
+        }
+    }
+
+    return diff;
+}
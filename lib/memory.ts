@@ -0,0 +1,84 @@
+import { MemoryScan } from "./agent/interfaces.js";
+import { AgentIdentity, Application, Delegate } from "./application.js";
+import { ForwardingDelegate } from "./forwarding-delegate.js";
+
+import { LogLevel } from "frida";
+
+export interface MemoryInspection {
+    scan?: MemoryScan;
+    dump?: {
+        protection: string;
+
+        /**
+         * Directory to dump to, with a subdirectory per PID.
+         */
+        directory: string;
+    };
+}
+
+/**
+ * Scans and dumps the memory of each process attached to by the application,
+ * reporting the outcome as console messages of the process' scope.
+ */
+export class MemoryInspector extends ForwardingDelegate {
+    #inspection: MemoryInspection;
+    #app: Application | null = null;
+
+    constructor(inspection: MemoryInspection, delegate: Delegate) {
+        super(delegate);
+
+        this.#inspection = inspection;
+    }
+
+    public start(app: Application): void {
+        this.#app = app;
+    }
+
+    public onAttached(agent: AgentIdentity): void {
+        super.onAttached(agent);
+
+        this.#inspect(agent).catch(error => {
+            this.delegate.onConsoleMessage(agent.scope, LogLevel.Warning,
+                `Unable to inspect memory: ${(error as Error).message}`);
+        });
+    }
+
+    async #inspect(agent: AgentIdentity): Promise<void> {
+        const app = this.#app;
+        if (app === null) {
+            throw new Error("Not started");
+        }
+
+        const { scope } = agent;
+        const { scan, dump } = this.#inspection;
+
+        if (scan !== undefined) {
+            const matches = await app.scanMemory(scope, scan);
+            for (const { address, module } of matches) {
+                const location = (module !== null) ? ` in ${module}` : "";
+                this.delegate.onConsoleMessage(scope, LogLevel.Info, `Found match at ${address}${location}`);
+            }
+            this.delegate.onConsoleMessage(scope, LogLevel.Info,
+                `Found ${matches.length} match${(matches.length !== 1) ? "es" : ""}`);
+        }
+
+        if (dump !== undefined) {
+            const dumps = await app.dumpMemory(scope, dump.protection, dump.directory);
+            const size = dumps.reduce((total, d) => total + d.size, 0);
+            const unreadable = dumps.reduce((total, d) => total + d.unreadable, 0);
+            this.delegate.onConsoleMessage(scope, LogLevel.Info,
+                `Dumped ${dumps.length} range${(dumps.length !== 1) ? "s" : ""}, ${size} bytes, to ${dump.directory}`);
+            if (unreadable !== 0) {
+                this.delegate.onConsoleMessage(scope, LogLevel.Warning,
+                    `${unreadable} bytes couldn't be read and were left as zeros`);
+            }
+        }
+    }
+}
+
+/**
+ * Turns text into a scan pattern matching its UTF-8 encoding.
+ */
+export function stringToPattern(text: string): string {
+    return Array.from(Buffer.from(text, "utf-8")).map(b => b.toString(16).padStart(2, "0")).join(" ");
+}
@@ -1,14 +1,31 @@
+import { OperationKind } from "./config.js";
+
+import { AsyncLocalStorage } from "async_hooks";
 import { EventEmitter } from "events";
 
 export type HRTime = any;
 
+export type OperationStatus = "pending" | "succeeded" | "failed" | "timed-out" | "cancelled";
+
 export interface Operation {
+    id: number;
+    parentId: number | null;
     scope: string;
     description: string;
+    kind: OperationKind | null;
     elapsed: HRTime;
+    attempts: number;
+    status: OperationStatus;
     onceComplete(callback: (error?: Error) => void): void;
 }
 
+const currentOperation = new AsyncLocalStorage<AsyncOperation>();
+let nextOperationId = 1;
+
+/**
+ * An operation started while another one's work is in progress, as tracked
+ * across awaits, becomes its child.
+ */
 export class AsyncOperation implements Operation {
     get elapsed(): HRTime {
         if (this.#duration === null) {
@@ -18,21 +35,60 @@ export class AsyncOperation implements Operation {
         return this.#duration;
     }
 
+    id = nextOperationId++;
+    parentId = currentOperation.getStore()?.id ?? null;
+    attempts = 0;
+    status: OperationStatus = "pending";
+
     #startTime: HRTime = process.hrtime();
     #duration: HRTime | null = null;
     #events: EventEmitter = new EventEmitter();
 
     constructor(
             public scope: string,
-            public description: string) {
+            public description: string,
+            public kind: OperationKind | null = null) {
     }
 
     public onceComplete(callback: (error?: Error) => void) {
         this.#events.once("complete", callback);
     }
 
+    public beginAttempt() {
+        this.attempts++;
+    }
+
+    public run<T>(work: () => T): T {
+        return currentOperation.run(this, work);
+    }
+
     public complete(error?: Error) {
         this.#duration = process.hrtime(this.#startTime);
+
+        if (error === undefined) {
+            this.status = "succeeded";
+        } else if (error instanceof OperationTimeoutError) {
+            this.status = "timed-out";
+        } else if (error instanceof OperationCancelledError) {
+            this.status = "cancelled";
+        } else {
+            this.status = "failed";
+        }
+
         this.#events.emit("complete", error);
     }
 }
+
+export class OperationTimeoutError extends Error {
+    constructor(public timeout: number) {
+        super(`Timed out after ${timeout} ms`);
+        this.name = "OperationTimeoutError";
+    }
+}
+
+export class OperationCancelledError extends Error {
+    constructor() {
+        super("Operation was cancelled");
+        this.name = "OperationCancelledError";
+    }
+}
@@ -0,0 +1,260 @@
+import { ProcessMatcher, TargetProcessMatching } from "./config.js";
+
+import { Process, Scope } from "frida";
+
+export type ProcessLike = Pick<Process, "name" | "parameters">;
+
+type Predicate = (process: ProcessLike, identifier: string | null) => boolean;
+
+/**
+ * Decides which processes a target applies to. A process is selected if it
+ * satisfies every field of at least one included matcher, or there are none,
+ * and no excluded matcher.
+ */
+export class ProcessFilter {
+    #include: Predicate[][];
+    #exclude: Predicate[][];
+
+    constructor(
+            public description: string,
+            public scope: Scope,
+            include: Predicate[][],
+            exclude: Predicate[][]) {
+        this.#include = include;
+        this.#exclude = exclude;
+    }
+
+    public static forName(name: string): ProcessFilter {
+        return new ProcessFilter(name, Scope.Minimal, [[process => process.name === name]], []);
+    }
+
+    public static forTarget(target: TargetProcessMatching): ProcessFilter {
+        return ProcessFilter.forMatchers(target.include, target.exclude ?? []);
+    }
+
+    public static forMatchers(include: ProcessMatcher[], exclude: ProcessMatcher[]): ProcessFilter {
+        const needsMetadata = [...include, ...exclude].some(m => Object.keys(m).some(key => key !== "name"));
+
+        return new ProcessFilter(
+            describeMatchers(include, exclude),
+            needsMetadata ? Scope.Metadata : Scope.Minimal,
+            include.map(compileMatcher),
+            exclude.map(compileMatcher));
+    }
+
+    public matches(process: ProcessLike, identifier: string | null = null): boolean {
+        const satisfies = (predicates: Predicate[]) => predicates.every(p => p(process, identifier));
+
+        return (this.#include.length === 0 || this.#include.some(satisfies)) && !this.#exclude.some(satisfies);
+    }
+}
+
+/**
+ * Parses the command-line form of a matcher: comma-separated terms of the form
+ * `[!][FIELD=]PATTERN`, where FIELD defaults to `name`. Plain terms must all
+ * match, while a process matching any `!` term is excluded.
+ */
+export function parseMatcherSpec(spec: string): Pick<TargetProcessMatching, "include" | "exclude"> {
+    const include: ProcessMatcher = {};
+    const exclude: ProcessMatcher[] = [];
+
+    let offset = 0;
+    while (offset < spec.length) {
+        let negated = false;
+        if (spec[offset] === "!") {
+            negated = true;
+            offset++;
+        }
+
+        let field = "name";
+        const fieldMatch = /^([A-Za-z_][\w.-]*)=/.exec(spec.substring(offset));
+        if (fieldMatch !== null) {
+            field = fieldMatch[1];
+            offset += fieldMatch[0].length;
+        }
+
+        let end: number;
+        if (spec[offset] === "/") {
+            end = offset + 1;
+            while (end < spec.length && spec[end] !== "/") {
+                end += (spec[end] === "\\") ? 2 : 1;
+            }
+            if (end >= spec.length) {
+                throw new Error(`Unterminated regular expression in "${spec}"`);
+            }
+            end++;
+            while (end < spec.length && /[a-z]/.test(spec[end])) {
+                end++;
+            }
+            if (end < spec.length && spec[end] !== ",") {
+                throw new Error(`Expected "," after ${spec.substring(offset, end)} in "${spec}"`);
+            }
+        } else {
+            end = spec.indexOf(",", offset);
+            if (end === -1) {
+                end = spec.length;
+            }
+        }
+
+        const pattern = spec.substring(offset, end);
+        if (pattern.length === 0) {
+            throw new Error(`Missing pattern in "${spec}"`);
+        }
+        compilePattern(pattern);
+
+        const matcher = negated ? {} : include;
+        setMatcherField(matcher, field, pattern, spec);
+        if (negated) {
+            exclude.push(matcher);
+        }
+
+        offset = end + 1;
+    }
+
+    return {
+        include: (Object.keys(include).length !== 0) ? [include] : [],
+        exclude,
+    };
+}
+
+/**
+ * Tells whether a name given on the command line is meant as a matcher rather
+ * than an exact process name.
+ */
+export function isMatcherSpec(value: string): boolean {
+    return /[*?[=,]/.test(value) || value.startsWith("!") || value.startsWith("/");
+}
+
+/**
+ * Compiles a glob, or a regular expression if written as `/SOURCE/FLAGS`.
+ * Globs must match the whole value, regular expressions any part of it.
+ */
+export function compilePattern(pattern: string): RegExp {
+    const literal = /^\/(.*)\/([a-z]*)$/s.exec(pattern);
+    if (literal !== null) {
+        return new RegExp(literal[1], literal[2]);
+    }
+
+    let source = "";
+    for (let i = 0; i !== pattern.length; i++) {
+        const c = pattern[i];
+        switch (c) {
+            case "*":
+                source += ".*";
+                break;
+            case "?":
+                source += ".";
+                break;
+            case "[": {
+                const end = pattern.indexOf("]", i + 2);
+                if (end === -1) {
+                    source += "\\[";
+                    break;
+                }
+                let set = pattern.substring(i + 1, end);
+                if (set.startsWith("!")) {
+                    set = "^" + set.substring(1);
+                }
+                source += `[${set.replace(/\\/g, "\\\\")}]`;
+                i = end;
+                break;
+            }
+            default:
+                source += c.replace(/[.*+?^${}()|[\]\\\/]/g, "\\$&");
+        }
+    }
+    return new RegExp(`^${source}$`, "s");
+}
+
+function setMatcherField(matcher: ProcessMatcher, field: string, pattern: string, spec: string): void {
+    const alreadySet = () => new Error(`Field "${field}" given more than once in "${spec}"`);
+
+    switch (field) {
+        case "name":
+        case "path":
+        case "identifier":
+        case "user":
+            if (matcher[field] !== undefined) {
+                throw alreadySet();
+            }
+            matcher[field] = pattern;
+            break;
+        case "ppid": {
+            const ppid = Number(pattern);
+            if (!Number.isInteger(ppid) || ppid < 0) {
+                throw new Error(`Invalid parent PID "${pattern}" in "${spec}"`);
+            }
+            if (matcher.ppid !== undefined) {
+                throw alreadySet();
+            }
+            matcher.ppid = ppid;
+            break;
+        }
+        default: {
+            const parameters = matcher.parameters ?? {};
+            if (parameters[field] !== undefined) {
+                throw alreadySet();
+            }
+            parameters[field] = pattern;
+            matcher.parameters = parameters;
+        }
+    }
+}
+
+function compileMatcher(matcher: ProcessMatcher): Predicate[] {
+    const predicates: Predicate[] = [];
+
+    const { name, path, identifier, user, ppid, parameters } = matcher;
+    if (name !== undefined) {
+        const regex = compilePattern(name);
+        predicates.push(process => regex.test(process.name));
+    }
+    if (path !== undefined) {
+        predicates.push(compileParameterPredicate("path", path));
+    }
+    if (identifier !== undefined) {
+        const regex = compilePattern(identifier);
+        predicates.push((process, spawnIdentifier) => {
+            const { applications } = process.parameters;
+            const candidates: any[] = Array.isArray(applications) ? applications.slice() : [];
+            if (spawnIdentifier !== null) {
+                candidates.push(spawnIdentifier);
+            }
+            return candidates.some(c => typeof c === "string" && regex.test(c));
+        });
+    }
+    if (user !== undefined) {
+        predicates.push(compileParameterPredicate("user", user));
+    }
+    if (ppid !== undefined) {
+        predicates.push(process => process.parameters.ppid === ppid);
+    }
+    for (const [key, pattern] of Object.entries(parameters ?? {})) {
+        predicates.push(compileParameterPredicate(key, pattern));
+    }
+
+    return predicates;
+}
+
+function compileParameterPredicate(key: string, pattern: string): Predicate {
+    const regex = compilePattern(pattern);
+    return process => {
+        const value = process.parameters[key];
+        return value !== undefined && value !== null && regex.test(String(value));
+    };
+}
+
+function describeMatchers(include: ProcessMatcher[], exclude: ProcessMatcher[]): string {
+    const terms = [
+        ...include.map(m => describeMatcher(m, "")),
+        ...exclude.map(m => describeMatcher(m, "!")),
+    ];
+    return (terms.length !== 0) ? terms.join(", ") : "*";
+}
+
+function describeMatcher(matcher: ProcessMatcher, prefix: string): string {
+    const { parameters, ...fields } = matcher;
+    return Object.entries({ ...fields, ...parameters })
+        .map(([key, value]) => (key === "name") ? `${prefix}${value}` : `${prefix}${key}=${value}`)
+        .join(",");
+}
@@ -0,0 +1,85 @@
+export type ProcessOrigin = "target" | "fork" | "exec" | "spawn";
+
+export interface ProcessNode {
+    pid: number;
+    name: string;
+    scope: string | null;
+    origin: ProcessOrigin;
+    children: ProcessNode[];
+}
+
+export interface ProcessTreeEntry {
+    pid: number;
+    name: string;
+    scope: string;
+    origin: ProcessOrigin;
+    lineage: number[];
+}
+
+/**
+ * Tracks instrumented processes by ancestry. Processes no longer instrumented
+ * are kept, with a null scope, for as long as any of their descendants are.
+ */
+export class ProcessTree {
+    #roots: ProcessNode[] = [];
+    #nodes = new Map<number, ProcessNode>();
+    #parents = new Map<ProcessNode, ProcessNode | null>();
+
+    public add(entry: ProcessTreeEntry): void {
+        const { pid, name, scope, origin, lineage } = entry;
+
+        const existing = this.#nodes.get(pid);
+        if (existing !== undefined) {
+            existing.name = name;
+            existing.scope = scope;
+            existing.origin = origin;
+            return;
+        }
+
+        const parent = (lineage.length !== 0) ? this.#nodes.get(lineage[lineage.length - 1]) ?? null : null;
+
+        const node: ProcessNode = { pid, name, scope, origin, children: [] };
+        this.#nodes.set(pid, node);
+        this.#parents.set(node, parent);
+        ((parent !== null) ? parent.children : this.#roots).push(node);
+    }
+
+    /**
+     * Marks the process as no longer instrumented, unless it has since been
+     * instrumented again under a different scope, as happens on exec.
+     */
+    public remove(pid: number, scope: string): void {
+        const node = this.#nodes.get(pid);
+        if (node === undefined || node.scope !== scope) {
+            return;
+        }
+
+        node.scope = null;
+        this.#prune(node);
+    }
+
+    public snapshot(): ProcessNode[] {
+        return this.#roots.map(copyNode);
+    }
+
+    #prune(node: ProcessNode): void {
+        if (node.scope !== null || node.children.length !== 0) {
+            return;
+        }
+
+        const parent = this.#parents.get(node) ?? null;
+        const siblings = (parent !== null) ? parent.children : this.#roots;
+        siblings.splice(siblings.indexOf(node), 1);
+
+        this.#nodes.delete(node.pid);
+        this.#parents.delete(node);
+
+        if (parent !== null) {
+            this.#prune(parent);
+        }
+    }
+}
+
+function copyNode(node: ProcessNode): ProcessNode {
+    return { ...node, children: node.children.map(copyNode) };
+}
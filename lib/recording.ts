@@ -0,0 +1,374 @@
+import { ModuleInfo, TracedCall } from "./agent/interfaces.js";
+import { AgentIdentity, Delegate, ProcessExit, ScriptError, StopReason } from "./application.js";
+import { OperationKind } from "./config.js";
+import { ForwardingDelegate } from "./forwarding-delegate.js";
+import { HRTime, Operation, OperationStatus } from "./operation.js";
+import { RunSummary } from "./statistics.js";
+
+import { LogLevel, SessionDetachReason } from "frida";
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import { readFile } from "fs/promises";
+
+export const recordingFormat = "frida-tool-example-recording";
+export const recordingVersion = 1;
+
+export interface ReplayOptions {
+    /**
+     * How many times faster than recorded to replay, with `Infinity` not
+     * waiting at all. Defaults to 1.
+     */
+    speed?: number;
+}
+
+type Entry =
+    | { type: "recording", format: string, version: number, startTime: string }
+    | { type: "operation-started", id: number, parentId?: number | null, scope: string, description: string,
+        kind?: OperationKind | null }
+    | { type: "operation-completed", id: number, elapsed: number, attempts: number, status: OperationStatus,
+        error: RecordedError | null }
+    | { type: "log", scope: string, level: LogLevel, text: string }
+    | { type: "output", scope: string, pid: number, fd: number, data: string }
+    | { type: "message", agent: AgentIdentity, payload: any, data: string | null }
+    | { type: "agent-error", agent: AgentIdentity, error: ScriptError }
+    | { type: "calls", agent: AgentIdentity, calls: TracedCall[] }
+    | { type: "modules-loaded", agent: AgentIdentity, modules: ModuleInfo[] }
+    | { type: "attached", agent: AgentIdentity }
+    | { type: "detached", agent: AgentIdentity, reason: SessionDetachReason, exit?: ProcessExit | null }
+    | { type: "reconnecting", device: string, attempt: number, maxAttempts: number }
+    | { type: "reconnected", device: string, attempts: number }
+    | { type: "stopped", reason: StopReason }
+    | { type: "summary", summary: RunSummary };
+
+type TimedEntry = Entry & { time: number };
+
+interface RecordedError {
+    name: string;
+    message: string;
+}
+
+export class RecordingError extends Error {
+    constructor(
+            public source: string,
+            public line: number,
+            public reason: string) {
+        super(`${source}:${line}: ${reason}`);
+        this.name = "RecordingError";
+    }
+}
+
+/**
+ * Appends every event passed to the wrapped delegate to a recording, one JSON
+ * object per line, so that a run can be replayed later. Each session starts
+ * with a header carrying the format version, and event times are relative to
+ * it, in milliseconds. Binary data is stored base64-encoded.
+ */
+export class Recorder extends ForwardingDelegate {
+    #stream: fs.WriteStream | null;
+    #error: Error | null = null;
+    #startTime: HRTime = process.hrtime();
+
+    constructor(filePath: string, delegate: Delegate) {
+        super(delegate);
+
+        this.#stream = fs.createWriteStream(filePath, { flags: "a" });
+        this.#stream.on("error", error => {
+            this.#error = error;
+        });
+
+        this.#write({
+            type: "recording",
+            format: recordingFormat,
+            version: recordingVersion,
+            startTime: new Date().toISOString(),
+        });
+    }
+
+    /**
+     * Closes the recording once all of it is written, ignoring any events
+     * passed on after that. Fails if it couldn't be written.
+     */
+    public async close(): Promise<void> {
+        const stream = this.#stream;
+        if (stream === null) {
+            return;
+        }
+        this.#stream = null;
+
+        await new Promise<void>(resolve => stream.end(resolve));
+        if (this.#error !== null) {
+            throw this.#error;
+        }
+    }
+
+    public onProgress(operation: Operation): void {
+        super.onProgress(operation);
+
+        const { id, parentId, scope, description, kind } = operation;
+        this.#write({ type: "operation-started", id, parentId, scope, description, kind });
+
+        operation.onceComplete(error => {
+            this.#write({
+                type: "operation-completed",
+                id,
+                elapsed: hrtimeToMilliseconds(operation.elapsed),
+                attempts: operation.attempts,
+                status: operation.status,
+                error: (error !== undefined) ? { name: error.name, message: error.message } : null,
+            });
+        });
+    }
+
+    public onConsoleMessage(scope: string, level: LogLevel, text: string): void {
+        super.onConsoleMessage(scope, level, text);
+        this.#write({ type: "log", scope, level, text });
+    }
+
+    public onOutput(scope: string, pid: number, fd: number, data: Buffer): void {
+        super.onOutput(scope, pid, fd, data);
+        this.#write({ type: "output", scope, pid, fd, data: data.toString("base64") });
+    }
+
+    public onAgentMessage(agent: AgentIdentity, payload: any, data: Buffer | null): void {
+        super.onAgentMessage(agent, payload, data);
+        this.#write({ type: "message", agent, payload, data: (data !== null) ? data.toString("base64") : null });
+    }
+
+    public onAgentError(agent: AgentIdentity, error: ScriptError): void {
+        super.onAgentError(agent, error);
+        this.#write({ type: "agent-error", agent, error });
+    }
+
+    public onTracedCalls(agent: AgentIdentity, calls: TracedCall[]): void {
+        super.onTracedCalls(agent, calls);
+        this.#write({ type: "calls", agent, calls });
+    }
+
+    public onModulesLoaded(agent: AgentIdentity, modules: ModuleInfo[]): void {
+        super.onModulesLoaded(agent, modules);
+        this.#write({ type: "modules-loaded", agent, modules });
+    }
+
+    public onAttached(agent: AgentIdentity): void {
+        super.onAttached(agent);
+        this.#write({ type: "attached", agent });
+    }
+
+    public onDetached(agent: AgentIdentity, reason: SessionDetachReason, exit: ProcessExit | null): void {
+        super.onDetached(agent, reason, exit);
+        this.#write({ type: "detached", agent, reason, exit });
+    }
+
+    public onReconnecting(device: string, attempt: number, maxAttempts: number): void {
+        super.onReconnecting(device, attempt, maxAttempts);
+        this.#write({ type: "reconnecting", device, attempt, maxAttempts });
+    }
+
+    public onReconnected(device: string, attempts: number): void {
+        super.onReconnected(device, attempts);
+        this.#write({ type: "reconnected", device, attempts });
+    }
+
+    public onStopped(reason: StopReason): void {
+        super.onStopped(reason);
+        this.#write({ type: "stopped", reason });
+    }
+
+    public onSummary(summary: RunSummary): void {
+        super.onSummary(summary);
+        this.#write({ type: "summary", summary });
+    }
+
+    #write(entry: Entry): void {
+        if (this.#stream === null || this.#error !== null) {
+            return;
+        }
+
+        const time = hrtimeToMilliseconds(process.hrtime(this.#startTime));
+        this.#stream.write(JSON.stringify({ time, ...entry }) + "\n");
+    }
+}
+
+/**
+ * Feeds a recording back through `delegate`, waiting between events as long
+ * as originally recorded, divided by the speed. Sessions appended to the same
+ * file are replayed back to back.
+ */
+export async function replay(filePath: string, delegate: Delegate, options: ReplayOptions = {}): Promise<void> {
+    const speed = options.speed ?? 1;
+    const records = parseRecording(await readFile(filePath, "utf-8"), filePath);
+
+    const operations = new Map<number, ReplayedOperation>();
+    let previousTime = 0;
+
+    for (const record of records) {
+        if (record.type === "recording") {
+            operations.clear();
+            previousTime = 0;
+            continue;
+        }
+
+        const delay = (record.time - previousTime) / speed;
+        if (delay >= 1) {
+            await new Promise(resolve => setTimeout(resolve, delay));
+        }
+        previousTime = record.time;
+
+        switch (record.type) {
+            case "operation-started": {
+                const operation = new ReplayedOperation(record.id, record.parentId ?? null, record.scope,
+                    record.description, record.kind ?? null);
+                operations.set(record.id, operation);
+                delegate.onProgress(operation);
+                break;
+            }
+            case "operation-completed": {
+                const operation = operations.get(record.id);
+                if (operation === undefined) {
+                    break;
+                }
+                operations.delete(record.id);
+                operation.complete(record);
+                break;
+            }
+            case "log":
+                delegate.onConsoleMessage(record.scope, record.level, record.text);
+                break;
+            case "output":
+                delegate.onOutput(record.scope, record.pid, record.fd, Buffer.from(record.data, "base64"));
+                break;
+            case "message":
+                delegate.onAgentMessage(record.agent, record.payload,
+                    (record.data !== null) ? Buffer.from(record.data, "base64") : null);
+                break;
+            case "agent-error":
+                delegate.onAgentError(record.agent, record.error);
+                break;
+            case "calls":
+                delegate.onTracedCalls(record.agent, record.calls);
+                break;
+            case "modules-loaded":
+                delegate.onModulesLoaded(record.agent, record.modules);
+                break;
+            case "attached":
+                delegate.onAttached(record.agent);
+                break;
+            case "detached":
+                delegate.onDetached(record.agent, record.reason, record.exit ?? null);
+                break;
+            case "reconnecting":
+                delegate.onReconnecting(record.device, record.attempt, record.maxAttempts);
+                break;
+            case "reconnected":
+                delegate.onReconnected(record.device, record.attempts);
+                break;
+            case "stopped":
+                delegate.onStopped(record.reason);
+                break;
+            case "summary":
+                delegate.onSummary(record.summary);
+                break;
+        }
+    }
+}
+
+/**
+ * Parses the text of a recording into its entries, skipping a last line cut
+ * short, and failing on anything else that isn't one.
+ */
+export function parseRecording(text: string, source: string): TimedEntry[] {
+    const lines = text.split("\n");
+    if (lines[lines.length - 1] === "") {
+        lines.pop();
+    }
+
+    const records: TimedEntry[] = [];
+    lines.forEach((line, index) => {
+        const lineNumber = index + 1;
+
+        let record: TimedEntry;
+        try {
+            record = JSON.parse(line);
+        } catch (e) {
+            // The last line may have been cut short by the recording process dying.
+            if (lineNumber === lines.length) {
+                return;
+            }
+            throw new RecordingError(source, lineNumber, `Invalid JSON: ${(e as Error).message}`);
+        }
+
+        if (typeof record !== "object" || record === null || typeof record.type !== "string" ||
+                typeof record.time !== "number") {
+            throw new RecordingError(source, lineNumber, "Expected an object with type and time");
+        }
+
+        if (record.type === "recording") {
+            if (record.format !== recordingFormat) {
+                throw new RecordingError(source, lineNumber, "Not a recording");
+            }
+            if (record.version > recordingVersion) {
+                throw new RecordingError(source, lineNumber,
+                    `Unsupported version ${record.version}, expected at most ${recordingVersion}`);
+            }
+        } else if (records.length === 0) {
+            throw new RecordingError(source, lineNumber, "Not a recording");
+        }
+
+        records.push(record);
+    });
+
+    if (records.length === 0) {
+        throw new RecordingError(source, 1, "Not a recording");
+    }
+
+    return records;
+}
+
+class ReplayedOperation implements Operation {
+    get elapsed(): HRTime {
+        return this.#duration ?? process.hrtime(this.#startTime);
+    }
+
+    attempts = 0;
+    status: OperationStatus = "pending";
+
+    #startTime: HRTime = process.hrtime();
+    #duration: HRTime | null = null;
+    #events: EventEmitter = new EventEmitter();
+
+    constructor(
+            public id: number,
+            public parentId: number | null,
+            public scope: string,
+            public description: string,
+            public kind: OperationKind | null) {
+    }
+
+    public onceComplete(callback: (error?: Error) => void) {
+        this.#events.once("complete", callback);
+    }
+
+    public complete({ elapsed, attempts, status, error }: { elapsed: number, attempts: number,
+            status: OperationStatus, error: RecordedError | null }) {
+        this.#duration = millisecondsToHrtime(elapsed);
+        this.attempts = attempts;
+        this.status = status;
+
+        let replayedError: Error | undefined;
+        if (error !== null) {
+            replayedError = new Error(error.message);
+            replayedError.name = error.name;
+        }
+
+        this.#events.emit("complete", replayedError);
+    }
+}
+
+function hrtimeToMilliseconds([seconds, nanoseconds]: [number, number]): number {
+    return (seconds * 1e3) + (nanoseconds / 1e6);
+}
+
+function millisecondsToHrtime(milliseconds: number): [number, number] {
+    const seconds = Math.floor(milliseconds / 1e3);
+    return [seconds, Math.floor((milliseconds - (seconds * 1e3)) * 1e6)];
+}
@@ -0,0 +1,169 @@
+import { TracedCall } from "./agent/interfaces.js";
+import { AgentIdentity, Delegate, ProcessExit, ScriptError, StopReason } from "./application.js";
+import { ForwardingDelegate } from "./forwarding-delegate.js";
+import { Operation } from "./operation.js";
+
+import { LogLevel, SessionDetachReason } from "frida";
+
+export interface RunSummary {
+    reason: StopReason;
+
+    /**
+     * Milliseconds from the start of the run until it stopped.
+     */
+    duration: number;
+
+    targets: TargetSummary[];
+}
+
+/**
+ * Statistics for the processes on one device, or for the work done by the
+ * application itself, with `target` then being "application".
+ */
+export interface TargetSummary {
+    target: string;
+    processesAttached: number;
+    childrenInstrumented: number;
+    messages: number;
+    tracedCalls: number;
+    logLines: { [level: string]: number };
+    detachReasons: { [reason: string]: number };
+
+    /**
+     * Number of failed or timed out operations, by description.
+     */
+    failures: { [description: string]: number };
+
+    phases: PhaseSummary[];
+}
+
+export interface PhaseSummary {
+    /**
+     * Operation kind, or "other" for operations without one.
+     */
+    phase: string;
+    operations: number;
+
+    /**
+     * Milliseconds spent in operations of this kind, summed.
+     */
+    time: number;
+}
+
+/**
+ * Tallies the events passed to the wrapped delegate, for summarizing a run
+ * once it has stopped.
+ */
+export class StatisticsCollector extends ForwardingDelegate {
+    #startTime = process.hrtime();
+    #targets = new Map<string, TargetSummary>();
+
+    constructor(delegate: Delegate) {
+        super(delegate);
+    }
+
+    public start(): void {
+        this.#startTime = process.hrtime();
+    }
+
+    public summarize(reason: StopReason): RunSummary {
+        return {
+            reason,
+            duration: hrtimeToMilliseconds(process.hrtime(this.#startTime)),
+            targets: Array.from(this.#targets.values()).map(t => ({
+                ...t,
+                logLines: { ...t.logLines },
+                detachReasons: { ...t.detachReasons },
+                failures: { ...t.failures },
+                phases: t.phases.map(p => ({ ...p })),
+            })),
+        };
+    }
+
+    public onProgress(operation: Operation): void {
+        super.onProgress(operation);
+
+        operation.onceComplete(() => {
+            const target = this.#getTarget(operation.scope);
+
+            const phaseName = operation.kind ?? "other";
+            let phase = target.phases.find(p => p.phase === phaseName);
+            if (phase === undefined) {
+                phase = { phase: phaseName, operations: 0, time: 0 };
+                target.phases.push(phase);
+            }
+            phase.operations++;
+            phase.time += hrtimeToMilliseconds(operation.elapsed);
+
+            if (operation.status === "failed" || operation.status === "timed-out") {
+                increment(target.failures, operation.description);
+            }
+        });
+    }
+
+    public onConsoleMessage(scope: string, level: LogLevel, text: string): void {
+        super.onConsoleMessage(scope, level, text);
+        increment(this.#getTarget(scope).logLines, level);
+    }
+
+    public onAgentMessage(agent: AgentIdentity, payload: any, data: Buffer | null): void {
+        super.onAgentMessage(agent, payload, data);
+        this.#getTarget(agent.scope).messages++;
+    }
+
+    public onAgentError(agent: AgentIdentity, error: ScriptError): void {
+        super.onAgentError(agent, error);
+        increment(this.#getTarget(agent.scope).logLines, LogLevel.Error);
+    }
+
+    public onTracedCalls(agent: AgentIdentity, calls: TracedCall[]): void {
+        super.onTracedCalls(agent, calls);
+        this.#getTarget(agent.scope).tracedCalls += calls.length;
+    }
+
+    public onAttached(agent: AgentIdentity): void {
+        super.onAttached(agent);
+
+        const target = this.#getTarget(agent.scope);
+        if (agent.origin === "target") {
+            target.processesAttached++;
+        } else {
+            target.childrenInstrumented++;
+        }
+    }
+
+    public onDetached(agent: AgentIdentity, reason: SessionDetachReason, exit: ProcessExit | null): void {
+        super.onDetached(agent, reason, exit);
+        increment(this.#getTarget(agent.scope).detachReasons, reason);
+    }
+
+    #getTarget(scope: string): TargetSummary {
+        const separatorIndex = scope.lastIndexOf("@");
+        const name = (separatorIndex !== -1) ? scope.substring(separatorIndex + 1) : "application";
+
+        let target = this.#targets.get(name);
+        if (target === undefined) {
+            target = {
+                target: name,
+                processesAttached: 0,
+                childrenInstrumented: 0,
+                messages: 0,
+                tracedCalls: 0,
+                logLines: {},
+                detachReasons: {},
+                failures: {},
+                phases: [],
+            };
+            this.#targets.set(name, target);
+        }
+        return target;
+    }
+}
+
+function increment(counts: { [key: string]: number }, key: string): void {
+    counts[key] = (counts[key] ?? 0) + 1;
+}
+
+function hrtimeToMilliseconds([seconds, nanoseconds]: [number, number]): number {
+    return (seconds * 1e3) + (nanoseconds / 1e6);
+}
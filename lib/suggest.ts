@@ -0,0 +1,68 @@
+const maxSuggestions = 3;
+
+/**
+ * Shortest candidate to suggest for being contained in the input, as short
+ * ones such as "sh" are contained in too many inputs to be of any help.
+ */
+const minContainedLength = 4;
+
+/**
+ * Picks the candidates closest to `input`, for hinting at what was meant when
+ * a lookup by name or ID fails. Case-insensitive prefix and substring matches
+ * rank first, followed by those within a few typos.
+ */
+export function suggest(input: string, candidates: Iterable<string>): string[] {
+    const needle = input.toLowerCase();
+    const maxDistance = Math.max(2, Math.floor(needle.length / 3));
+
+    const ranked: [string, number][] = [];
+    for (const candidate of new Set(candidates)) {
+        const haystack = candidate.toLowerCase();
+
+        let rank: number;
+        if (haystack === needle || haystack.startsWith(needle)) {
+            rank = 0;
+        } else if (haystack.includes(needle) ||
+                (haystack.length >= minContainedLength && needle.includes(haystack))) {
+            rank = 1;
+        } else {
+            const distance = editDistance(needle, haystack);
+            if (distance > maxDistance) {
+                continue;
+            }
+            rank = 1 + distance;
+        }
+
+        ranked.push([candidate, rank]);
+    }
+
+    return ranked
+        .sort(([a, rankA], [b, rankB]) => (rankA - rankB) || a.localeCompare(b))
+        .slice(0, maxSuggestions)
+        .map(([candidate]) => candidate);
+}
+
+export function formatSuggestions(suggestions: string[]): string {
+    if (suggestions.length === 0) {
+        return "";
+    }
+
+    const quoted = suggestions.map(s => `"${s}"`);
+    const last = quoted.pop()!;
+    return ` Did you mean ${(quoted.length !== 0) ? `${quoted.join(", ")} or ${last}` : last}?`;
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const substitution = previous[j - 1] + ((a[i - 1] === b[j - 1]) ? 0 : 1);
+            current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+        }
+        previous = current;
+    }
+
+    return previous[b.length];
+}
@@ -0,0 +1,218 @@
+import { ModuleInfo } from "./agent/interfaces.js";
+import { AgentIdentity, Delegate, ProcessExit, ScriptError, StopReason } from "./application.js";
+import { OperationKind } from "./config.js";
+import { ForwardingDelegate } from "./forwarding-delegate.js";
+import { HRTime, Operation } from "./operation.js";
+
+import { SessionDetachReason } from "frida";
+import * as fs from "fs";
+
+const tracePid = 1;
+
+/**
+ * Operations that together instrument a process, grouped under one span.
+ */
+const instrumentationKinds: OperationKind[] = ["attach", "enable-child-gating", "create-script", "load-script", "init"];
+
+type TraceEvent = { name: string, ph: string, pid: number, tid: number, [key: string]: any };
+
+interface Track {
+    tid: number;
+    busy: boolean;
+}
+
+interface Instrumentation {
+    event: TraceEvent;
+    end: number;
+    error: string | null;
+}
+
+/**
+ * Collects the operations passed to the wrapped delegate as Chrome Trace Event
+ * JSON, for viewing in Perfetto or chrome://tracing. Each scope gets a track,
+ * with more added while its operations overlap, and the operations that
+ * instrument a process are nested under a span covering all of them.
+ */
+export class TraceExporter extends ForwardingDelegate {
+    #startTime: HRTime = process.hrtime();
+    #events: TraceEvent[] = [
+        { name: "process_name", ph: "M", pid: tracePid, tid: 0, args: { name: "frida-tool-example" } },
+    ];
+    #tracks = new Map<string, Track[]>();
+    #numTracks = 0;
+    #instrumentations = new Map<string, Instrumentation>();
+    #pending = new Set<() => void>();
+
+    constructor(delegate: Delegate) {
+        super(delegate);
+    }
+
+    /**
+     * Writes the trace, with operations still in flight ending now.
+     */
+    public write(filePath: string): void {
+        for (const flush of this.#pending) {
+            flush();
+        }
+        for (const scope of this.#instrumentations.keys()) {
+            this.#endInstrumentation(scope);
+        }
+
+        fs.writeFileSync(filePath, JSON.stringify({ traceEvents: this.#events, displayTimeUnit: "ms" }));
+    }
+
+    public onProgress(operation: Operation): void {
+        super.onProgress(operation);
+
+        const { scope, description, kind } = operation;
+        const start = this.#now();
+        const track = this.#acquireTrack(scope);
+
+        if (kind === "attach") {
+            this.#endInstrumentation(scope);
+
+            // Added up front so that viewers see it before the spans nested in it.
+            const event = { name: `Instrumenting ${scope}`, cat: "instrument", ph: "X", ts: start, dur: 0,
+                pid: tracePid, tid: track.tid, args: {} };
+            this.#events.push(event);
+            this.#instrumentations.set(scope, { event, end: start, error: null });
+        }
+
+        let recorded = false;
+        const complete = (error?: Error) => {
+            if (recorded) {
+                return;
+            }
+            recorded = true;
+            this.#pending.delete(flush);
+            track.busy = false;
+
+            const duration = hrtimeToMicroseconds(operation.elapsed);
+            const args: { [key: string]: any } = { attempts: operation.attempts, status: operation.status };
+            if (error !== undefined) {
+                args.error = error.message;
+            }
+            this.#events.push({
+                name: description,
+                cat: kind ?? "operation",
+                ph: "X",
+                ts: start,
+                dur: duration,
+                pid: tracePid,
+                tid: track.tid,
+                args,
+                ...((operation.status !== "succeeded" && operation.status !== "pending") ? { cname: "terrible" } : {}),
+            });
+
+            const instrumentation = this.#instrumentations.get(scope);
+            if (instrumentation !== undefined && kind !== null && instrumentationKinds.includes(kind)) {
+                instrumentation.end = Math.max(instrumentation.end, start + duration);
+                if (error !== undefined) {
+                    instrumentation.error = `${description}: ${error.message}`;
+                }
+                if (error !== undefined || kind === "init") {
+                    this.#endInstrumentation(scope);
+                }
+            }
+        };
+        const flush = () => complete();
+        this.#pending.add(flush);
+
+        operation.onceComplete(complete);
+    }
+
+    public onAgentError(agent: AgentIdentity, error: ScriptError): void {
+        super.onAgentError(agent, error);
+        this.#instant(agent.scope, "Script error", { description: error.description });
+    }
+
+    public onModulesLoaded(agent: AgentIdentity, modules: ModuleInfo[]): void {
+        super.onModulesLoaded(agent, modules);
+        for (const { name, path, base } of modules) {
+            this.#instant(agent.scope, `Loaded ${name}`, { path, base });
+        }
+    }
+
+    public onDetached(agent: AgentIdentity, reason: SessionDetachReason, exit: ProcessExit | null): void {
+        super.onDetached(agent, reason, exit);
+        this.#instant(agent.scope, "Detached", { reason, exit });
+    }
+
+    public onReconnecting(device: string, attempt: number, maxAttempts: number): void {
+        super.onReconnecting(device, attempt, maxAttempts);
+        this.#instant("application", `Reconnecting to ${device}`, { attempt, maxAttempts });
+    }
+
+    public onReconnected(device: string, attempts: number): void {
+        super.onReconnected(device, attempts);
+        this.#instant("application", `Reconnected to ${device}`, { attempts });
+    }
+
+    public onStopped(reason: StopReason): void {
+        super.onStopped(reason);
+        this.#instant("application", "Stopped", { ...reason });
+    }
+
+    #acquireTrack(scope: string): Track {
+        const tracks = this.#tracksOf(scope);
+
+        let track = tracks.find(t => !t.busy);
+        if (track === undefined) {
+            track = this.#addTrack(scope, tracks);
+        }
+        track.busy = true;
+
+        return track;
+    }
+
+    #tracksOf(scope: string): Track[] {
+        let tracks = this.#tracks.get(scope);
+        if (tracks === undefined) {
+            tracks = [];
+            this.#tracks.set(scope, tracks);
+        }
+        return tracks;
+    }
+
+    #addTrack(scope: string, tracks: Track[]): Track {
+        const track = { tid: ++this.#numTracks, busy: false };
+        tracks.push(track);
+
+        const name = (tracks.length === 1) ? scope : `${scope} (${tracks.length})`;
+        this.#events.push(
+            { name: "thread_name", ph: "M", pid: tracePid, tid: track.tid, args: { name } },
+            { name: "thread_sort_index", ph: "M", pid: tracePid, tid: track.tid, args: { sort_index: track.tid } });
+
+        return track;
+    }
+
+    #endInstrumentation(scope: string): void {
+        const instrumentation = this.#instrumentations.get(scope);
+        if (instrumentation === undefined) {
+            return;
+        }
+        this.#instrumentations.delete(scope);
+
+        const { event, end, error } = instrumentation;
+        event.dur = end - event.ts;
+        if (error !== null) {
+            event.args.error = error;
+            event.cname = "terrible";
+        }
+    }
+
+    #instant(scope: string, name: string, args: { [key: string]: any }): void {
+        const tracks = this.#tracksOf(scope);
+        const track = tracks[0] ?? this.#addTrack(scope, tracks);
+
+        this.#events.push({ name, ph: "i", s: "t", ts: this.#now(), pid: tracePid, tid: track.tid, args });
+    }
+
+    #now(): number {
+        return hrtimeToMicroseconds(process.hrtime(this.#startTime));
+    }
+}
+
+function hrtimeToMicroseconds([seconds, nanoseconds]: [number, number]): number {
+    return (seconds * 1e6) + Math.floor(nanoseconds / 1e3);
+}
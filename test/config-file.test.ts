@@ -0,0 +1,226 @@
+import { Config } from "../lib/config.js";
+import { ConfigError, loadConfig, mergeConfig, mergeScripts, parseConfig, parseTarget } from "../lib/config-file.js";
+
+import assert from "assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, it } from "node:test";
+
+function assertConfigError(parse: () => unknown, location: string, reason: string | RegExp): void {
+    assert.throws(parse, (e: unknown) => {
+        assert.ok(e instanceof ConfigError);
+        assert.equal(e.location, location);
+        if (typeof reason === "string") {
+            assert.equal(e.reason, reason);
+        } else {
+            assert.match(e.reason, reason);
+        }
+        return true;
+    });
+}
+
+describe("parseConfig", () => {
+    it("parses JSON and YAML alike", () => {
+        const json = parseConfig(`{"targets": [{"processes": [{"kind": "by-name", "name": "Twitter"}]}]}`, "json");
+        const yaml = parseConfig([
+            "targets:",
+            "  - processes:",
+            "      - { kind: by-name, name: Twitter }",
+        ].join("\n"), "yaml");
+
+        const expected: Config = { targets: [{ device: { kind: "local" }, processes: [{ kind: "by-name", name: "Twitter" }] }] };
+        assert.deepEqual(json, expected);
+        assert.deepEqual(yaml, expected);
+    });
+
+    it("resolves agent and script sources against the base directory", () => {
+        const config = parseConfig(JSON.stringify({
+            targets: [],
+            agent: { source: "agents/main.js" },
+            scripts: [{ name: "ssl", source: "agents/ssl.js" }],
+        }), "json", "<config>", "/work");
+
+        assert.equal(config.agent?.source, path.resolve("/work", "agents/main.js"));
+        assert.equal(config.scripts?.[0].source, path.resolve("/work", "agents/ssl.js"));
+    });
+
+    it("reads spawn options", () => {
+        const [target] = parseConfig(JSON.stringify({
+            targets: [{
+                device: { kind: "usb" },
+                processes: [{
+                    kind: "spawn",
+                    program: "/bin/cat",
+                    argv: ["cat", ""],
+                    env: { DEBUG: 1, VERBOSE: true, NAME: "x" },
+                    stdio: "pipe",
+                }],
+            }],
+        }), "json").targets;
+
+        assert.deepEqual(target, {
+            device: { kind: "usb" },
+            processes: [{
+                kind: "spawn",
+                program: "/bin/cat",
+                argv: ["cat", ""],
+                env: { DEBUG: "1", VERBOSE: "true", NAME: "x" },
+                stdio: "pipe",
+            }],
+        });
+    });
+
+    it("reads child policies given as a boolean or an object", () => {
+        const config = parseConfig(JSON.stringify({
+            targets: [
+                { processes: [], children: false },
+                { processes: [], children: { maxDepth: 2, origins: ["spawn"], include: [{ name: "cc*" }] } },
+            ],
+        }), "json");
+
+        assert.deepEqual(config.targets.map(t => t.children), [
+            { enabled: false },
+            { maxDepth: 2, origins: ["spawn"], include: [{ name: "cc*" }] },
+        ]);
+    });
+
+    it("reports invalid syntax", () => {
+        assertConfigError(() => parseConfig("{", "json", "config.json"), "", /^Invalid JSON: /);
+    });
+
+    it("reports where a value is wrong", () => {
+        assertConfigError(() => parseConfig(`{"targets": [{"processes": [{"kind": "by-name"}]}]}`, "json"),
+            "targets[0].processes[0].name", "missing, expected a string");
+        assertConfigError(() => parseConfig(`{"targets": [{"processes": [{"kind": "by-pid"}]}]}`, "json"),
+            "targets[0].processes[0].kind", /^expected one of: "spawn", .*, got "by-pid"$/);
+        assertConfigError(() => parseConfig(`{"targets": [], "reconnect": {"attempts": 1.5}}`, "json"),
+            "reconnect.attempts", "expected a non-negative integer, got 1.5");
+        assertConfigError(() => parseConfig(`{"targets": "all"}`, "json"),
+            "targets", `expected an array, got "all"`);
+    });
+
+    it("rejects unknown properties", () => {
+        assertConfigError(() => parseConfig(`{"targets": [], "target": []}`, "json"), "target", "unknown property");
+    });
+
+    it("rejects invalid patterns", () => {
+        const text = `{"targets": [{"processes": [{"kind": "matching", "include": [{"name": "/(/"}]}]}]}`;
+        assertConfigError(() => parseConfig(text, "json"), "targets[0].processes[0].include[0].name", /^invalid pattern: /);
+    });
+
+    it("rejects matching targets without matchers", () => {
+        assertConfigError(() => parseConfig(`{"targets": [{"processes": [{"kind": "matching"}]}]}`, "json"),
+            "targets[0].processes[0]", "expected at least one matcher in include or exclude");
+    });
+
+    it("rejects maxMatches other than a positive integer", () => {
+        for (const maxMatches of [0, -1, 1.5, "2"]) {
+            const text = JSON.stringify({ targets: [{ processes: [{ kind: "all-by-name", name: "cat", maxMatches }] }] });
+            assertConfigError(() => parseConfig(text, "json"), "targets[0].processes[0].maxMatches",
+                /^expected a positive integer, got /);
+        }
+    });
+
+    it("rejects scripts named like the agent or each other", () => {
+        assertConfigError(() => parseConfig(`{"targets": [], "scripts": [{"name": "agent", "source": "a.js"}]}`, "json"),
+            "scripts[0].name", `"agent" is reserved for the agent`);
+        assertConfigError(() => parseConfig(JSON.stringify({
+            targets: [],
+            scripts: [{ name: "ssl", source: "a.js" }, { name: "ssl", source: "b.js" }],
+        }), "json"), "scripts[1].name", `duplicate script "ssl"`);
+    });
+});
+
+describe("parseTarget", () => {
+    it("reports locations relative to the target", () => {
+        assertConfigError(() => parseTarget({ processes: [{ kind: "by-ids", ids: [] }] }, "request"),
+            "processes[0].ids", "expected at least one PID");
+    });
+});
+
+describe("loadConfig", () => {
+    it("infers the format from the extension and resolves sources next to the file", async () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), "config-"));
+        try {
+            const filePath = path.join(directory, "config.yml");
+            fs.writeFileSync(filePath, "targets: []\nagent:\n  source: agent.js\n");
+
+            const config = await loadConfig(filePath);
+            assert.equal(config.agent?.source, path.join(directory, "agent.js"));
+        } finally {
+            fs.rmSync(directory, { recursive: true });
+        }
+    });
+});
+
+describe("mergeConfig", () => {
+    it("adds processes to targets on the same device and appends the others", () => {
+        const base: Config = {
+            targets: [{ device: { kind: "local" }, processes: [{ kind: "by-name", name: "a" }] }],
+        };
+        const extra: Config = {
+            targets: [
+                { device: { kind: "local" }, processes: [{ kind: "by-name", name: "b" }] },
+                { device: { kind: "by-id", id: "xyz" }, processes: [{ kind: "by-name", name: "c" }] },
+                { device: { kind: "usb" }, processes: [] },
+            ],
+        };
+
+        assert.deepEqual(mergeConfig(base, extra).targets, [
+            { device: { kind: "local" }, processes: [{ kind: "by-name", name: "a" }, { kind: "by-name", name: "b" }] },
+            { device: { kind: "by-id", id: "xyz" }, processes: [{ kind: "by-name", name: "c" }] },
+        ]);
+        assert.deepEqual(base.targets[0].processes, [{ kind: "by-name", name: "a" }]);
+    });
+
+    it("lets the agent options of a target on the same device take precedence", () => {
+        const base: Config = {
+            targets: [{
+                device: { kind: "local" },
+                processes: [{ kind: "by-name", name: "a" }],
+                agent: { source: "base.js", watchModules: true },
+                children: { maxDepth: 1, origins: ["fork"] },
+            }],
+        };
+        const extra: Config = {
+            targets: [{
+                device: { kind: "local" },
+                processes: [{ kind: "by-name", name: "b" }],
+                agent: { source: "extra.js" },
+                children: { maxDepth: 3 },
+            }],
+        };
+
+        const [target] = mergeConfig(base, extra).targets;
+        assert.deepEqual(target.agent, { source: "extra.js", watchModules: true });
+        assert.deepEqual(target.children, { maxDepth: 3, origins: ["fork"] });
+    });
+
+    it("merges policies field by field", () => {
+        const merged = mergeConfig(
+            { targets: [], operations: { attach: { timeout: 1000, retries: 2 } }, reconnect: { attempts: 3, delay: 100 } },
+            { targets: [], operations: { attach: { retries: 5 }, spawn: { timeout: 10 } }, reconnect: { delay: 500 } });
+
+        assert.deepEqual(merged.operations, { attach: { timeout: 1000, retries: 5 }, spawn: { timeout: 10 } });
+        assert.deepEqual(merged.reconnect, { attempts: 3, delay: 500 });
+    });
+
+    it("leaves out what neither config has", () => {
+        assert.deepEqual(mergeConfig({ targets: [] }, { targets: [] }), { targets: [] });
+    });
+});
+
+describe("mergeScripts", () => {
+    it("replaces scripts of the same name in place and appends the others", () => {
+        const merged = mergeScripts(
+            [{ name: "a", source: "a.js" }, { name: "b", source: "b.js" }],
+            [{ name: "a", source: "a2.js" }, { name: "c", source: "c.js" }]);
+
+        assert.deepEqual(merged, [
+            { name: "a", source: "a2.js" },
+            { name: "b", source: "b.js" },
+            { name: "c", source: "c.js" },
+        ]);
+    });
+});
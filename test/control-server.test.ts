@@ -0,0 +1,137 @@
+import { Application, ControlServer, isLoopbackHost } from "../lib/index.js";
+import { nullDelegate } from "./null-delegate.js";
+
+import assert from "assert/strict";
+import * as http from "http";
+import { after, before, describe, it } from "node:test";
+import { WebSocket } from "ws";
+
+const token = "s3cret";
+
+interface Response {
+    status: number;
+    body: any;
+}
+
+/**
+ * Runs against the local device, serving the control API on an ephemeral
+ * loopback port.
+ */
+describe("ControlServer", () => {
+    let server: ControlServer;
+    let app: Application;
+    let address: string;
+
+    before(async () => {
+        server = new ControlServer({ token }, nullDelegate);
+        app = new Application({ targets: [] }, server);
+        address = await server.start(app);
+    });
+
+    after(async () => {
+        await server.close();
+        await app.dispose();
+    });
+
+    function request(method: string, pathname: string, headers: http.OutgoingHttpHeaders = {},
+            body: string | null = null): Promise<Response> {
+        return new Promise((resolve, reject) => {
+            const req = http.request(new URL(pathname, address), {
+                method,
+                headers: { Authorization: `Bearer ${token}`, ...headers },
+            }, res => {
+                const chunks: Buffer[] = [];
+                res.on("data", chunk => chunks.push(chunk));
+                res.on("end", () => {
+                    resolve({ status: res.statusCode!, body: JSON.parse(Buffer.concat(chunks).toString("utf-8")) });
+                });
+                res.on("error", reject);
+            });
+            req.on("error", reject);
+            req.end(body ?? undefined);
+        });
+    }
+
+    it("lists the local device", async () => {
+        const { status, body } = await request("GET", "/devices");
+        assert.equal(status, 200);
+        assert.ok(body.some((device: any) => device.id === "local"));
+    });
+
+    it("lists the processes of the local device", async () => {
+        const { status, body } = await request("GET", "/devices/local/processes");
+        assert.equal(status, 200);
+        assert.ok(body.some((p: any) => p.pid === process.pid));
+    });
+
+    it("refuses requests without the token", async () => {
+        const { status } = await request("GET", "/devices", { Authorization: "Bearer wrong" });
+        assert.equal(status, 401);
+    });
+
+    it("refuses requests naming a host other than a loopback one", async () => {
+        const { status } = await request("GET", "/devices", { Host: "example.com" });
+        assert.equal(status, 403);
+    });
+
+    it("refuses requests from other origins", async () => {
+        const { status } = await request("GET", "/devices", { Origin: "https://example.com" });
+        assert.equal(status, 403);
+    });
+
+    it("refuses bodies not sent as JSON", async () => {
+        const { status } = await request("POST", "/targets", { "Content-Type": "text/plain" }, "{}");
+        assert.equal(status, 415);
+    });
+
+    it("answers unknown routes with 404", async () => {
+        const { status } = await request("GET", "/nonexistent");
+        assert.equal(status, 404);
+    });
+
+    it("streams events to WebSocket clients", async () => {
+        const ws = new WebSocket(new URL(`/events?token=${token}`, address.replace(/^http/, "ws")));
+        try {
+            await new Promise((resolve, reject) => {
+                ws.once("open", resolve);
+                ws.once("error", reject);
+            });
+
+            const completed = new Promise<any>(resolve => {
+                ws.on("message", data => {
+                    const event = JSON.parse(data.toString());
+                    if (event.type === "operation-completed" && event.description === "Enumerating processes") {
+                        resolve(event);
+                    }
+                });
+            });
+            await request("GET", "/devices/local/processes");
+
+            const { scope, error } = await completed;
+            assert.equal(scope, "application");
+            assert.equal(error, null);
+        } finally {
+            ws.close();
+        }
+    });
+
+    it("refuses WebSocket clients without the token", async () => {
+        const ws = new WebSocket(new URL("/events", address.replace(/^http/, "ws")));
+        const error = await new Promise<Error>(resolve => ws.once("error", resolve));
+        assert.match(error.message, /401/);
+    });
+});
+
+describe("isLoopbackHost", () => {
+    it("accepts loopback hosts", () => {
+        for (const host of ["localhost", "127.0.0.1", "127.1.2.3", "::1"]) {
+            assert.ok(isLoopbackHost(host), host);
+        }
+    });
+
+    it("rejects other hosts", () => {
+        for (const host of ["0.0.0.0", "192.168.1.1", "example.com", "127.example.com", "::"]) {
+            assert.ok(!isLoopbackHost(host), host);
+        }
+    });
+});
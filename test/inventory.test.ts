@@ -0,0 +1,105 @@
+import { ModuleInfo } from "../lib/agent/interfaces.js";
+import { ModuleSnapshot, SnapshotError, diffSnapshots, loadSnapshot, snapshotFormat, snapshotVersion } from "../lib/inventory.js";
+
+import assert from "assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, it } from "node:test";
+
+function snapshot(modules: ModuleInfo[]): ModuleSnapshot {
+    return {
+        format: snapshotFormat,
+        version: snapshotVersion,
+        scope: "cat:1234@Local System",
+        name: "cat",
+        pid: 1234,
+        device: "Local System",
+        time: "2024-01-01T00:00:00.000Z",
+        modules,
+    };
+}
+
+function module(name: string, base: string, fields: Partial<ModuleInfo> = {}): ModuleInfo {
+    return { name, path: `/usr/lib/${name}`, base, size: 4096, ...fields };
+}
+
+function exports(...names: string[]): ModuleInfo["exports"] {
+    return names.map((name, i) => ({ type: "function", name, address: `0x${(0x1000 + i).toString(16)}` }));
+}
+
+describe("diffSnapshots", () => {
+    it("finds added and removed modules by name", () => {
+        const diff = diffSnapshots(
+            snapshot([module("libc.so", "0x1000"), module("libold.so", "0x2000")]),
+            snapshot([module("libc.so", "0x1000"), module("libnew.so", "0x3000")]));
+
+        assert.deepEqual(diff.added.map(m => m.name), ["libnew.so"]);
+        assert.deepEqual(diff.removed.map(m => m.name), ["libold.so"]);
+        assert.deepEqual(diff.changed, []);
+    });
+
+    it("ignores modules only loaded at another base", () => {
+        const diff = diffSnapshots(snapshot([module("libc.so", "0x1000")]), snapshot([module("libc.so", "0x5000")]));
+        assert.deepEqual(diff, { added: [], removed: [], changed: [] });
+    });
+
+    it("reports modules with another path or size", () => {
+        const diff = diffSnapshots(
+            snapshot([module("libc.so", "0x1000"), module("libm.so", "0x2000")]),
+            snapshot([module("libc.so", "0x1000", { path: "/opt/lib/libc.so" }), module("libm.so", "0x2000", { size: 8192 })]));
+
+        assert.deepEqual(diff.changed.map(c => [c.name, c.exportsAdded, c.exportsRemoved]), [
+            ["libc.so", [], []],
+            ["libm.so", [], []],
+        ]);
+    });
+
+    it("compares exports when both snapshots list them", () => {
+        const before = module("libc.so", "0x1000", { exports: exports("open", "close", "gets") });
+        const after = module("libc.so", "0x1000", { exports: exports("open", "close", "fgets") });
+
+        const [change] = diffSnapshots(snapshot([before]), snapshot([after])).changed;
+        assert.equal(change.before, before);
+        assert.equal(change.after, after);
+        assert.deepEqual(change.exportsAdded, ["fgets"]);
+        assert.deepEqual(change.exportsRemoved, ["gets"]);
+    });
+
+    it("ignores exports when only one snapshot lists them", () => {
+        const diff = diffSnapshots(
+            snapshot([module("libc.so", "0x1000", { exports: exports("open") })]),
+            snapshot([module("libc.so", "0x1000")]));
+        assert.deepEqual(diff.changed, []);
+    });
+});
+
+describe("loadSnapshot", () => {
+    function withSnapshotFile(contents: string, callback: (filePath: string) => Promise<void>): Promise<void> {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), "snapshot-"));
+        const filePath = path.join(directory, "cat-1234@local.json");
+        fs.writeFileSync(filePath, contents);
+        return callback(filePath).finally(() => fs.rmSync(directory, { recursive: true }));
+    }
+
+    it("loads a snapshot", async () => {
+        const expected = snapshot([module("libc.so", "0x1000")]);
+        await withSnapshotFile(JSON.stringify(expected), async filePath => {
+            assert.deepEqual(await loadSnapshot(filePath), expected);
+        });
+    });
+
+    it("rejects other files", async () => {
+        await withSnapshotFile(JSON.stringify({ format: "something-else", modules: [] }), async filePath => {
+            await assert.rejects(loadSnapshot(filePath), new SnapshotError(filePath, "Not a module snapshot"));
+        });
+    });
+
+    it("rejects newer versions", async () => {
+        const newer = { ...snapshot([]), version: snapshotVersion + 1 };
+        await withSnapshotFile(JSON.stringify(newer), async filePath => {
+            await assert.rejects(loadSnapshot(filePath),
+                new SnapshotError(filePath, `Unsupported version ${snapshotVersion + 1}, expected at most ${snapshotVersion}`));
+        });
+    });
+});
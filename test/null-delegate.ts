@@ -0,0 +1,17 @@
+import { Delegate } from "../lib/application.js";
+
+export const nullDelegate: Delegate = {
+    onProgress() {},
+    onConsoleMessage() {},
+    onOutput() {},
+    onAgentMessage() {},
+    onAgentError() {},
+    onTracedCalls() {},
+    onModulesLoaded() {},
+    onAttached() {},
+    onDetached() {},
+    onReconnecting() {},
+    onReconnected() {},
+    onStopped() {},
+    onSummary() {},
+};
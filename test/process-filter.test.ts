@@ -0,0 +1,136 @@
+import { ProcessFilter, ProcessLike, compilePattern, isMatcherSpec, parseMatcherSpec } from "../lib/process-filter.js";
+
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+
+function candidate(name: string, parameters: ProcessLike["parameters"] = {}): ProcessLike {
+    return { name, parameters };
+}
+
+describe("compilePattern", () => {
+    it("matches globs against the whole value", () => {
+        const regex = compilePattern("cc*");
+        assert.ok(regex.test("cc1plus"));
+        assert.ok(!regex.test("gcc"));
+    });
+
+    it("supports single-character wildcards", () => {
+        const regex = compilePattern("ld.??");
+        assert.ok(regex.test("ld.so"));
+        assert.ok(!regex.test("ld.so.2"));
+    });
+
+    it("supports character sets, negated with !", () => {
+        assert.ok(compilePattern("python[23]").test("python3"));
+        assert.ok(!compilePattern("python[!23]").test("python3"));
+        assert.ok(compilePattern("python[!23]").test("python4"));
+    });
+
+    it("treats an unterminated set literally", () => {
+        assert.ok(compilePattern("a[b").test("a[b"));
+    });
+
+    it("escapes regular expression syntax in globs", () => {
+        const regex = compilePattern("com.example.(app)+");
+        assert.ok(regex.test("com.example.(app)+"));
+        assert.ok(!regex.test("comXexample.app"));
+    });
+
+    it("matches regular expressions against any part of the value", () => {
+        const regex = compilePattern("/^com\\.example\\./i");
+        assert.ok(regex.test("COM.EXAMPLE.App"));
+        assert.ok(!regex.test("org.example.app"));
+        assert.ok(compilePattern("/python/").test("/usr/bin/python3"));
+    });
+});
+
+describe("parseMatcherSpec", () => {
+    it("takes a plain pattern as a name", () => {
+        assert.deepEqual(parseMatcherSpec("cc*"), { include: [{ name: "cc*" }], exclude: [] });
+    });
+
+    it("combines plain terms into one matcher and excludes each ! term", () => {
+        assert.deepEqual(parseMatcherSpec("cc*,user=root,!ld,!path=*/tmp/*"), {
+            include: [{ name: "cc*", user: "root" }],
+            exclude: [{ name: "ld" }, { path: "*/tmp/*" }],
+        });
+    });
+
+    it("parses parent PIDs as numbers", () => {
+        assert.deepEqual(parseMatcherSpec("ppid=1"), { include: [{ ppid: 1 }], exclude: [] });
+        assert.throws(() => parseMatcherSpec("ppid=init"), /Invalid parent PID "init"/);
+    });
+
+    it("takes other fields as parameters", () => {
+        assert.deepEqual(parseMatcherSpec("arch=arm64"), { include: [{ parameters: { arch: "arm64" } }], exclude: [] });
+    });
+
+    it("keeps commas within regular expressions", () => {
+        assert.deepEqual(parseMatcherSpec("/a{1,2}/i,!b"), { include: [{ name: "/a{1,2}/i" }], exclude: [{ name: "b" }] });
+    });
+
+    it("rejects malformed specs", () => {
+        assert.throws(() => parseMatcherSpec("/abc"), /Unterminated regular expression/);
+        assert.throws(() => parseMatcherSpec("/abc/x2"), /Expected "," after/);
+        assert.throws(() => parseMatcherSpec("a,,b"), /Missing pattern/);
+        assert.throws(() => parseMatcherSpec("name=a,name=b"), /Field "name" given more than once/);
+        assert.throws(() => parseMatcherSpec("/(/"), SyntaxError);
+    });
+});
+
+describe("isMatcherSpec", () => {
+    it("tells matchers apart from exact names", () => {
+        for (const spec of ["cc*", "python?", "lib[ab]", "user=root", "a,b", "!ld", "/cc/"]) {
+            assert.ok(isMatcherSpec(spec), spec);
+        }
+        for (const name of ["Twitter", "com.example.app", "Google Chrome"]) {
+            assert.ok(!isMatcherSpec(name), name);
+        }
+    });
+});
+
+describe("ProcessFilter", () => {
+    it("selects processes satisfying every field of an included matcher and no excluded one", () => {
+        const filter = ProcessFilter.forMatchers([{ name: "cc*", user: "root" }], [{ name: "ccache" }]);
+
+        assert.ok(filter.matches(candidate("cc1", { user: "root" })));
+        assert.ok(!filter.matches(candidate("cc1", { user: "oleavr" })));
+        assert.ok(!filter.matches(candidate("cc1")));
+        assert.ok(!filter.matches(candidate("ccache", { user: "root" })));
+    });
+
+    it("selects everything not excluded without included matchers", () => {
+        const filter = ProcessFilter.forMatchers([], [{ name: "ld" }]);
+
+        assert.ok(filter.matches(candidate("cc1")));
+        assert.ok(!filter.matches(candidate("ld")));
+        assert.equal(filter.description, "!ld");
+    });
+
+    it("matches identifiers among applications or the one spawned", () => {
+        const filter = ProcessFilter.forMatchers([{ identifier: "com.example.*" }], []);
+
+        assert.ok(filter.matches(candidate("Example", { applications: ["com.example.app"] })));
+        assert.ok(filter.matches(candidate("Example"), "com.example.app"));
+        assert.ok(!filter.matches(candidate("Example"), "org.example.app"));
+    });
+
+    it("matches parent PIDs and other parameters", () => {
+        const filter = ProcessFilter.forMatchers([{ ppid: 1, parameters: { arch: "arm*" } }], []);
+
+        assert.ok(filter.matches(candidate("init", { ppid: 1, arch: "arm64" })));
+        assert.ok(!filter.matches(candidate("init", { ppid: 2, arch: "arm64" })));
+        assert.ok(!filter.matches(candidate("init", { ppid: 1, arch: "x86_64" })));
+    });
+
+    it("only asks for metadata when matching more than names", () => {
+        assert.equal(ProcessFilter.forName("cat").scope, ProcessFilter.forMatchers([{ name: "cat" }], []).scope);
+        assert.notEqual(ProcessFilter.forMatchers([{ name: "cat" }], []).scope,
+            ProcessFilter.forMatchers([], [{ user: "root" }]).scope);
+    });
+
+    it("describes its matchers", () => {
+        const filter = ProcessFilter.forMatchers([{ name: "cc*", user: "root", parameters: { arch: "arm64" } }], [{ name: "ld" }]);
+        assert.equal(filter.description, "cc*,user=root,arch=arm64, !ld");
+    });
+});
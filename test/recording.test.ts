@@ -0,0 +1,102 @@
+import { Recorder, RecordingError, parseRecording, recordingFormat, recordingVersion } from "../lib/recording.js";
+import { nullDelegate } from "./null-delegate.js";
+
+import assert from "assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, it } from "node:test";
+
+const header = JSON.stringify({
+    time: 0,
+    type: "recording",
+    format: recordingFormat,
+    version: recordingVersion,
+    startTime: "2024-01-01T00:00:00.000Z",
+});
+
+function lines(...entries: string[]): string {
+    return entries.map(entry => entry + "\n").join("");
+}
+
+function reconnecting(time: number): string {
+    return JSON.stringify({ time, type: "reconnecting", device: "local", attempt: 1, maxAttempts: 3 });
+}
+
+describe("parseRecording", () => {
+    it("parses each line into an entry", () => {
+        const entries = parseRecording(lines(header, reconnecting(5), reconnecting(10)), "test.jsonl");
+        assert.deepEqual(entries.map(e => [e.type, e.time]), [["recording", 0], ["reconnecting", 5], ["reconnecting", 10]]);
+    });
+
+    it("parses sessions appended to the same recording", () => {
+        const entries = parseRecording(lines(header, reconnecting(5), header, reconnecting(1)), "test.jsonl");
+        assert.deepEqual(entries.map(e => e.type), ["recording", "reconnecting", "recording", "reconnecting"]);
+    });
+
+    it("skips a last line cut short", () => {
+        const text = lines(header, reconnecting(5)) + reconnecting(10).substring(0, 20);
+        const entries = parseRecording(text, "test.jsonl");
+        assert.equal(entries.length, 2);
+    });
+
+    it("fails on a line cut short before the last one", () => {
+        const text = lines(header, reconnecting(5).substring(0, 20), reconnecting(10));
+        assert.throws(() => parseRecording(text, "test.jsonl"), (e: unknown) => {
+            assert.ok(e instanceof RecordingError);
+            assert.equal(e.line, 2);
+            assert.match(e.reason, /^Invalid JSON/);
+            return true;
+        });
+    });
+
+    it("rejects newer versions", () => {
+        const newer = JSON.stringify({ ...JSON.parse(header), version: recordingVersion + 1 });
+        assert.throws(() => parseRecording(lines(newer), "test.jsonl"),
+            new RecordingError("test.jsonl", 1, `Unsupported version ${recordingVersion + 1}, expected at most ${recordingVersion}`));
+    });
+
+    it("rejects other formats", () => {
+        const other = JSON.stringify({ ...JSON.parse(header), format: "something-else" });
+        assert.throws(() => parseRecording(lines(other), "test.jsonl"), new RecordingError("test.jsonl", 1, "Not a recording"));
+    });
+
+    it("rejects entries before the header", () => {
+        assert.throws(() => parseRecording(lines(reconnecting(5), header), "test.jsonl"),
+            new RecordingError("test.jsonl", 1, "Not a recording"));
+    });
+
+    it("rejects lines without a type and time", () => {
+        assert.throws(() => parseRecording(lines(header, JSON.stringify({ type: "log" })), "test.jsonl"),
+            new RecordingError("test.jsonl", 2, "Expected an object with type and time"));
+    });
+
+    it("rejects empty recordings", () => {
+        assert.throws(() => parseRecording("", "test.jsonl"), new RecordingError("test.jsonl", 1, "Not a recording"));
+    });
+});
+
+describe("Recorder", () => {
+    it("writes a recording that parses back", async () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), "recording-"));
+        try {
+            const filePath = path.join(directory, "run.jsonl");
+
+            const recorder = new Recorder(filePath, nullDelegate);
+            recorder.onReconnecting("local", 1, 3);
+            recorder.onReconnected("local", 1);
+            await recorder.close();
+            recorder.onReconnecting("local", 2, 3);
+
+            const entries = parseRecording(fs.readFileSync(filePath, "utf-8"), filePath);
+            assert.deepEqual(entries.map(e => e.type), ["recording", "reconnecting", "reconnected"]);
+        } finally {
+            fs.rmSync(directory, { recursive: true });
+        }
+    });
+
+    it("fails to close if the recording couldn't be written", async () => {
+        const recorder = new Recorder(path.join(os.tmpdir(), "nonexistent", "run.jsonl"), nullDelegate);
+        await assert.rejects(recorder.close(), { code: "ENOENT" });
+    });
+});
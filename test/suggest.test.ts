@@ -0,0 +1,47 @@
+import { formatSuggestions, suggest } from "../lib/suggest.js";
+
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+
+describe("suggest", () => {
+    it("ranks prefixes first, then substrings, then typos", () => {
+        const candidates = ["Xtwitterx", "Twitter Lite", "Twitetr"];
+        assert.deepEqual(suggest("twitter", candidates), ["Twitter Lite", "Xtwitterx", "Twitetr"]);
+    });
+
+    it("ignores case", () => {
+        assert.deepEqual(suggest("SAFARI", ["Safari"]), ["Safari"]);
+    });
+
+    it("leaves out candidates too far off", () => {
+        assert.deepEqual(suggest("twitter", ["Telegram", "Notes"]), []);
+    });
+
+    it("suggests candidates contained in the input only if long enough", () => {
+        assert.deepEqual(suggest("/usr/bin/bash-wrapper", ["bash", "sh", "ls"]), ["bash"]);
+    });
+
+    it("allows more typos in longer inputs", () => {
+        assert.deepEqual(suggest("cat", ["bax"]), ["bax"]);
+        assert.deepEqual(suggest("cat", ["box"]), []);
+        assert.deepEqual(suggest("com.example.app", ["com.exmaple.qpp"]), ["com.exmaple.qpp"]);
+    });
+
+    it("suggests at most three candidates, each once", () => {
+        assert.deepEqual(suggest("a", ["ab", "ab", "ac", "ad", "ae"]), ["ab", "ac", "ad"]);
+    });
+});
+
+describe("formatSuggestions", () => {
+    it("formats nothing without suggestions", () => {
+        assert.equal(formatSuggestions([]), "");
+    });
+
+    it("quotes a single suggestion", () => {
+        assert.equal(formatSuggestions(["local"]), ` Did you mean "local"?`);
+    });
+
+    it("lists several suggestions", () => {
+        assert.equal(formatSuggestions(["a", "b", "c"]), ` Did you mean "a", "b" or "c"?`);
+    });
+});